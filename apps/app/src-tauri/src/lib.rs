@@ -10,7 +10,8 @@ use accessibility::{is_macos_accessibility_enabled, open_apple_accessibility};
 pub mod recorder;
 use recorder::{
     cancel_recording, close_recording_session, close_thread, ensure_thread_initialized,
-    enumerate_recording_devices, init_recording_session, start_recording, stop_recording,
+    enumerate_recording_devices, get_recorder_state, init_recording_session, pause_recording,
+    resume_recording, start_recording, stop_recording,
 };
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
@@ -64,9 +65,12 @@ pub fn run() {
         is_macos_accessibility_enabled,
         // Register recorder commands
         enumerate_recording_devices,
+        get_recorder_state,
         init_recording_session,
         close_recording_session,
         start_recording,
+        pause_recording,
+        resume_recording,
         stop_recording,
         cancel_recording,
     ]);
@@ -76,9 +80,12 @@ pub fn run() {
         write_text,
         // Register recorder commands
         enumerate_recording_devices,
+        get_recorder_state,
         init_recording_session,
         close_recording_session,
         start_recording,
+        pause_recording,
+        resume_recording,
         stop_recording,
         cancel_recording,
     ]);
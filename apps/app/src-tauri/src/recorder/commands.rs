@@ -1,4 +1,4 @@
-use super::thread::{spawn_audio_thread, AudioCommand, AudioResponse};
+use super::thread::{spawn_audio_thread, AudioCommand, AudioResponse, RecordedAudio};
 use once_cell::sync::Lazy;
 use serde::Serialize;
 use std::sync::mpsc::{self, Receiver, Sender};
@@ -108,9 +108,24 @@ pub async fn enumerate_recording_devices() -> Result<Vec<DeviceInfo>> {
 }
 
 #[tauri::command]
-pub async fn init_recording_session(device_name: String) -> Result<()> {
+pub async fn get_recorder_state() -> Result<String> {
+    with_thread(|tx, rx| {
+        tx.send(AudioCommand::GetRecorderState)
+            .map_err(|e| RecorderError::SendError(e.to_string()))?;
+
+        match rx.recv() {
+            Ok(AudioResponse::RecorderState(state)) => Ok(state),
+            Ok(AudioResponse::Error(e)) => Err(RecorderError::AudioError(e)),
+            Ok(_) => Err(RecorderError::AudioError("Unexpected response".to_string())),
+            Err(e) => Err(RecorderError::ReceiveError(e.to_string())),
+        }
+    })
+}
+
+#[tauri::command]
+pub async fn init_recording_session(device_name: Option<String>) -> Result<()> {
     info!(
-        "Starting init_recording_session with device_name: {}",
+        "Starting init_recording_session with device_name: {:?}",
         device_name
     );
     with_thread(|tx, rx| {
@@ -211,7 +226,47 @@ pub async fn start_recording() -> Result<()> {
 }
 
 #[tauri::command]
-pub async fn stop_recording() -> Result<Vec<f32>> {
+pub async fn pause_recording() -> Result<()> {
+    debug!("Pausing recording");
+    with_thread(|tx, rx| {
+        tx.send(AudioCommand::PauseRecording)
+            .map_err(|e| RecorderError::SendError(e.to_string()))?;
+
+        match rx.recv() {
+            Ok(AudioResponse::Success(_)) => {
+                *IS_RECORDING.lock().unwrap() = false;
+                info!("Recording paused");
+                Ok(())
+            }
+            Ok(AudioResponse::Error(e)) => Err(RecorderError::AudioError(e)),
+            Ok(_) => Err(RecorderError::AudioError("Unexpected response".to_string())),
+            Err(e) => Err(RecorderError::ReceiveError(e.to_string())),
+        }
+    })
+}
+
+#[tauri::command]
+pub async fn resume_recording() -> Result<()> {
+    debug!("Resuming recording");
+    with_thread(|tx, rx| {
+        tx.send(AudioCommand::ResumeRecording)
+            .map_err(|e| RecorderError::SendError(e.to_string()))?;
+
+        match rx.recv() {
+            Ok(AudioResponse::Success(_)) => {
+                *IS_RECORDING.lock().unwrap() = true;
+                info!("Recording resumed");
+                Ok(())
+            }
+            Ok(AudioResponse::Error(e)) => Err(RecorderError::AudioError(e)),
+            Ok(_) => Err(RecorderError::AudioError("Unexpected response".to_string())),
+            Err(e) => Err(RecorderError::ReceiveError(e.to_string())),
+        }
+    })
+}
+
+#[tauri::command]
+pub async fn stop_recording() -> Result<RecordedAudio> {
     debug!("Stopping recording");
     with_thread(|tx, rx| {
         tx.send(AudioCommand::StopRecording)
@@ -220,7 +275,10 @@ pub async fn stop_recording() -> Result<Vec<f32>> {
         match rx.recv() {
             Ok(AudioResponse::AudioData(data)) => {
                 *IS_RECORDING.lock().unwrap() = false;
-                info!("Recording stopped successfully ({} samples)", data.len());
+                info!(
+                    "Recording stopped successfully ({} samples)",
+                    data.samples.len()
+                );
                 Ok(data)
             }
             Ok(AudioResponse::Error(e)) => {
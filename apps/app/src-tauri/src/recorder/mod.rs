@@ -3,8 +3,8 @@ pub mod thread;
 
 pub use commands::{
     cancel_recording, close_recording_session, close_thread, ensure_thread_initialized,
-    enumerate_recording_devices, init_recording_session, start_recording, stop_recording,
-    RecorderError,
+    enumerate_recording_devices, get_recorder_state, init_recording_session, pause_recording,
+    resume_recording, start_recording, stop_recording, RecorderError,
 };
 
-pub use thread::{AudioCommand, AudioResponse, RecordingSession};
+pub use thread::{AudioCommand, AudioResponse, RecordedAudio, RecordingSession};
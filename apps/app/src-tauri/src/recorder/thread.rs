@@ -1,5 +1,6 @@
 use cpal::traits::{DeviceTrait, HostTrait, StreamTrait};
 use cpal::Stream;
+use serde::Serialize;
 use std::sync::atomic::{AtomicBool, Ordering};
 use std::sync::Mutex;
 use std::sync::{
@@ -13,16 +14,30 @@ const INITIAL_BUFFER_CAPACITY: usize = 5_760_000; // Pre-allocate for ~2 minutes
 pub enum AudioCommand {
     CloseThread,
     EnumerateRecordingDevices,
-    InitRecordingSession(String),
+    GetRecorderState,
+    /// `None` or `"default"` records from the system default input device
+    InitRecordingSession(Option<String>),
     CloseRecordingSession,
     StartRecording,
+    PauseRecording,
+    ResumeRecording,
     StopRecording,
 }
 
+/// Interleaved samples exactly as captured, with the format needed to encode them
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct RecordedAudio {
+    pub samples: Vec<f32>,
+    pub sample_rate: u32,
+    pub channels: u16,
+}
+
 #[derive(Debug)]
 pub enum AudioResponse {
     RecordingDeviceList(Vec<String>),
-    AudioData(Vec<f32>),
+    RecorderState(String),
+    AudioData(RecordedAudio),
     Error(String),
     Success(String),
 }
@@ -31,6 +46,8 @@ pub struct RecordingSession {
     stream: Stream,
     is_recording: Arc<AtomicBool>,
     audio_buffer: Arc<Mutex<Vec<f32>>>,
+    sample_rate: u32,
+    channels: u16,
 }
 
 pub fn spawn_audio_thread(
@@ -41,6 +58,7 @@ pub fn spawn_audio_thread(
     std::thread::spawn(move || -> Result<(), SendError<AudioResponse>> {
         let host = cpal::default_host();
         let mut current_session: Option<RecordingSession> = None;
+        let mut is_paused = false;
 
         while let Ok(cmd) = rx.recv() {
             match cmd {
@@ -55,6 +73,18 @@ pub fn spawn_audio_thread(
                     response_tx.send(AudioResponse::RecordingDeviceList(devices))?;
                 }
 
+                AudioCommand::GetRecorderState => {
+                    let state = match &current_session {
+                        None => "IDLE",
+                        Some(_) if is_paused => "SESSION+PAUSED",
+                        Some(session) if session.is_recording.load(Ordering::Relaxed) => {
+                            "SESSION+RECORDING"
+                        }
+                        Some(_) => "SESSION",
+                    };
+                    response_tx.send(AudioResponse::RecorderState(state.to_string()))?;
+                }
+
                 AudioCommand::InitRecordingSession(device_name) => {
                     // Create a new pre-allocated buffer for storing audio data
                     let audio_buffer =
@@ -63,24 +93,36 @@ pub fn spawn_audio_thread(
                     let is_recording_producer = is_recording.clone();
                     let buffer_clone = audio_buffer.clone();
 
-                    let device = match host.input_devices() {
-                        Ok(mut devices) => {
-                            match devices
-                                .find(|d| matches!(d.name(), Ok(name) if name == device_name))
-                            {
-                                Some(device) => device,
-                                None => {
-                                    response_tx.send(AudioResponse::Error(
-                                        "Device not found".to_string(),
-                                    ))?;
-                                    continue;
+                    let device_name = device_name.filter(|name| name != "default");
+                    let device = match device_name {
+                        None => match host.default_input_device() {
+                            Some(device) => device,
+                            None => {
+                                response_tx.send(AudioResponse::Error(
+                                    "No default input device".to_string(),
+                                ))?;
+                                continue;
+                            }
+                        },
+                        Some(device_name) => match host.input_devices() {
+                            Ok(mut devices) => {
+                                match devices
+                                    .find(|d| matches!(d.name(), Ok(name) if name == device_name))
+                                {
+                                    Some(device) => device,
+                                    None => {
+                                        response_tx.send(AudioResponse::Error(
+                                            "Device not found".to_string(),
+                                        ))?;
+                                        continue;
+                                    }
                                 }
                             }
-                        }
-                        Err(e) => {
-                            response_tx.send(AudioResponse::Error(e.to_string()))?;
-                            continue;
-                        }
+                            Err(e) => {
+                                response_tx.send(AudioResponse::Error(e.to_string()))?;
+                                continue;
+                            }
+                        },
                     };
 
                     // Config can sometimes be overkill (96kHz with 3 channels)
@@ -137,6 +179,7 @@ pub fn spawn_audio_thread(
                     };
 
                     let sample_rate = config.sample_rate().0;
+                    let channels = config.channels();
                     let stream = match device.build_input_stream(
                         &config.into(),
                         move |data: &[f32], _: &_| {
@@ -170,7 +213,10 @@ pub fn spawn_audio_thread(
                         stream,
                         is_recording,
                         audio_buffer,
+                        sample_rate,
+                        channels,
                     });
+                    is_paused = false;
 
                     response_tx.send(AudioResponse::Success(
                         "Recording session initialized".to_string(),
@@ -185,6 +231,7 @@ pub fn spawn_audio_thread(
                         }
 
                         session.is_recording.store(true, Ordering::Relaxed);
+                        is_paused = false;
                         if let Err(e) = session.stream.play() {
                             response_tx.send(AudioResponse::Error(format!(
                                 "Failed to start stream: {}",
@@ -201,10 +248,36 @@ pub fn spawn_audio_thread(
                     }
                 }
 
+                AudioCommand::PauseRecording => {
+                    if let Some(session) = &current_session {
+                        // Keep the buffer so resuming appends to the same recording
+                        session.is_recording.store(false, Ordering::Relaxed);
+                        is_paused = true;
+                        response_tx
+                            .send(AudioResponse::Success("Recording paused".to_string()))?;
+                    } else {
+                        response_tx
+                            .send(AudioResponse::Error("No active recording".to_string()))?;
+                    }
+                }
+
+                AudioCommand::ResumeRecording => {
+                    if let Some(session) = &current_session {
+                        session.is_recording.store(true, Ordering::Relaxed);
+                        is_paused = false;
+                        response_tx
+                            .send(AudioResponse::Success("Recording resumed".to_string()))?;
+                    } else {
+                        response_tx
+                            .send(AudioResponse::Error("No active recording".to_string()))?;
+                    }
+                }
+
                 AudioCommand::StopRecording => {
                     if let Some(session) = &current_session {
                         // First stop recording to prevent new data from coming in
                         session.is_recording.store(false, Ordering::Relaxed);
+                        is_paused = false;
 
                         // Get a copy of all recorded audio data
                         let audio_data = if let Ok(buffer) = session.audio_buffer.lock() {
@@ -218,7 +291,11 @@ pub fn spawn_audio_thread(
                         // Stop the stream
                         session.stream.pause().unwrap_or_default();
 
-                        response_tx.send(AudioResponse::AudioData(audio_data))?;
+                        response_tx.send(AudioResponse::AudioData(RecordedAudio {
+                            samples: audio_data,
+                            sample_rate: session.sample_rate,
+                            channels: session.channels,
+                        }))?;
                     } else {
                         response_tx
                             .send(AudioResponse::Error("No active recording".to_string()))?;
@@ -226,6 +303,7 @@ pub fn spawn_audio_thread(
                 }
 
                 AudioCommand::CloseRecordingSession => {
+                    is_paused = false;
                     if let Some(session) = current_session.take() {
                         session.is_recording.store(false, Ordering::Relaxed);
                         drop(session.stream);
@@ -1,4 +1,5 @@
 import { userConfiguredServices } from '$lib/services';
+import { settings } from '$lib/stores/settings.svelte';
 import type { WhisperingErrProperties } from '@repo/shared';
 import { createQuery } from '@tanstack/svelte-query';
 
@@ -8,7 +9,8 @@ export function useGetMediaDevices() {
 			Pick<MediaDeviceInfo, 'label' | 'deviceId'>[],
 			WhisperingErrProperties
 		>(() => ({
-			queryKey: ['mediaDevices'],
+			// Web and native backends list devices under different ids
+			queryKey: ['mediaDevices', settings.value['recording.backend']],
 			queryFn: async () => {
 				const enumerateRecordingDevicesResult =
 					await userConfiguredServices.recorder.enumerateRecordingDevices();
@@ -0,0 +1,52 @@
+import { createResultMutation, DbService } from '$lib/services';
+import type { Recording } from '$lib/services/db/DbService';
+import { toast } from '$lib/services/toast';
+import { queryClient } from '..';
+import { recordingsKeys } from './queries';
+
+const invalidateRecordings = () =>
+	queryClient.invalidateQueries({ queryKey: recordingsKeys.all });
+
+export function useCreateRecording() {
+	return {
+		createRecording: createResultMutation(() => ({
+			mutationFn: (recording: Recording) =>
+				DbService.createRecording(recording),
+			onError: (error) => {
+				toast.warning(error);
+			},
+			onSettled: invalidateRecordings,
+		})),
+	};
+}
+
+export function useUpdateRecording() {
+	return {
+		updateRecording: createResultMutation(() => ({
+			mutationFn: (recording: Recording) =>
+				DbService.updateRecording(recording),
+			onError: (error) => {
+				toast.warning(error);
+			},
+			onSettled: invalidateRecordings,
+		})),
+	};
+}
+
+export function useDeleteRecording() {
+	return {
+		deleteRecording: createResultMutation(() => ({
+			mutationFn: (id: string) => DbService.deleteRecordingById(id),
+			onError: (error) => {
+				toast.error(error);
+			},
+			onSuccess: () => {
+				toast.success({
+					title: '🗑️ Recording deleted!',
+					description: 'The recording has been removed from your history.',
+				});
+			},
+			onSettled: invalidateRecordings,
+		})),
+	};
+}
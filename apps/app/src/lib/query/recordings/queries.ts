@@ -0,0 +1,15 @@
+import { createResultQuery, DbService } from '$lib/services';
+
+export const recordingsKeys = {
+	all: ['recordings'] as const,
+	byId: (id: string) => ['recordings', id] as const,
+};
+
+export function useRecordingsQuery() {
+	return {
+		recordingsQuery: createResultQuery(() => ({
+			queryKey: recordingsKeys.all,
+			queryFn: () => DbService.getAllRecordings(),
+		})),
+	};
+}
@@ -1,20 +1,45 @@
 import { createResultMutation, createResultQuery } from '$lib/services';
 import {
 	playSoundIfEnabled,
+	SetTrayIconService,
 	userConfiguredServices,
+	VadService,
 } from '$lib/services/index.js';
+import type { Recording } from '$lib/services/db/DbService';
 import type { UpdateStatusMessageFn } from '$lib/services/recorder/RecorderService';
 import { toast } from '$lib/services/toast';
 import { settings } from '$lib/stores/settings.svelte';
+import type { WhisperingErrProperties } from '@repo/shared';
 import { noop } from '@tanstack/table-core';
 import { nanoid } from 'nanoid/non-secure';
 import { getContext, setContext } from 'svelte';
 import { queryClient } from '..';
+import {
+	useCreateRecording,
+	useUpdateRecording,
+} from '../recordings/mutations';
 import type { Transcriber } from './transcriber';
 import type { Transformer } from './transformer';
-import type { LanguageType } from '$lib/services/transcription/TranscriptionService';
+import type {
+	LanguageType,
+	TranscriptionTask,
+} from '$lib/services/transcription/TranscriptionService';
 import { writeTextToClipboard, writeTextToCursor } from './maybeCopyAndPaste';
-import { showRecorderIndicator, hideRecorderIndicator } from './recorderIndicator';
+import { getAudioDurationMs } from '$lib/utils/audio';
+import { createRetryQueue, getNextRetryAt } from './retryQueue';
+import {
+	createStreamingTranscription,
+	type StreamingTranscription,
+} from './streamingTranscription';
+import {
+	hideRecorderIndicator,
+	listenForRecorderIndicatorCancel,
+	sendInputLevelToRecorderIndicator,
+	sendPartialTextToRecorderIndicator,
+	setRecorderIndicatorPaused,
+	setRecorderIndicatorProcessing,
+	showRecorderIndicator,
+} from './recorderIndicator';
 
 export type Recorder = ReturnType<typeof createRecorder>;
 
@@ -37,8 +62,18 @@ export const getRecorderFromContext = () => {
 const recorderKeys = {
 	all: ['recorder'] as const,
 	state: ['recorder', 'state'] as const,
+	vadState: ['recorder', 'vadState'] as const,
+	appliedAudioProcessing: ['recorder', 'appliedAudioProcessing'] as const,
 };
 
+const getAudioProcessingSettings = () => ({
+	echoCancellation:
+		settings.value['recording.audioProcessing.echoCancellation'],
+	noiseSuppression:
+		settings.value['recording.audioProcessing.noiseSuppression'],
+	autoGainControl: settings.value['recording.audioProcessing.autoGainControl'],
+});
+
 function createRecorder({
 	transcriber,
 	transformer,
@@ -46,6 +81,277 @@ function createRecorder({
 	transcriber: Transcriber;
 	transformer: Transformer;
 }) {
+	const { createRecording } = useCreateRecording();
+	const { updateRecording } = useUpdateRecording();
+
+	/** Identifies the in-progress recording so it can be saved to history on stop. */
+	let currentRecordingId: string | null = null;
+	let currentRecordingStartedAt: number | null = null;
+	/** Paused time is left out of the saved recording's duration. */
+	let currentRecordingPausedAt: number | null = null;
+	let currentRecordingPausedMs = 0;
+	/** Set while the recording is transcribed in the background. */
+	let currentStreamingTranscription: StreamingTranscription | null = null;
+	let currentRecordingTask: TranscriptionTask = 'transcribe';
+
+	const resetCurrentRecording = () => {
+		currentRecordingId = null;
+		currentRecordingStartedAt = null;
+		currentRecordingPausedAt = null;
+		currentRecordingPausedMs = 0;
+		currentStreamingTranscription = null;
+		currentRecordingTask = 'transcribe';
+	};
+
+	/** Recordings being transcribed or post-processed right now. */
+	const inFlightRuns = new Set<{
+		recordingId: string;
+		controller: AbortController;
+		insertToCursor: boolean;
+	}>();
+
+	/**
+	 * Aborts every run in flight. Canceled runs are saved to history as
+	 * canceled and never copied or pasted.
+	 */
+	const cancelProcessing = () => {
+		if (inFlightRuns.size === 0) {
+			toast.info({
+				title: 'Nothing to cancel',
+				description: 'No recording is being transcribed or post-processed.',
+			});
+			return;
+		}
+		for (const { controller } of inFlightRuns) controller.abort();
+	};
+
+	const onInFlightRunsChange = () => {
+		SetTrayIconService.setCancelProcessingHandler(
+			inFlightRuns.size > 0 ? cancelProcessing : null,
+		);
+		// Only runs that will paste need a way to stop them from the indicator
+		setRecorderIndicatorProcessing(
+			[...inFlightRuns].some((run) => run.insertToCursor),
+		);
+	};
+
+	void listenForRecorderIndicatorCancel(cancelProcessing);
+
+	/**
+	 * Saves the recording to history, transcribes it, runs post-processing
+	 * and writes the result to the clipboard and/or cursor. `onSettled`
+	 * receives the recording as it was last saved to history. Recordings
+	 * that fail with a temporary error go to the retry queue. Until it
+	 * settles, the run can be canceled with `cancelProcessing`.
+	 */
+	const transcribeAndOutputRecording = (
+		recording: Recording,
+		{
+			insertToCursor = true,
+			isRetry = false,
+			streamingTranscription,
+			onSettled,
+		}: {
+			insertToCursor?: boolean;
+			/** The recording is already in history, so it's updated instead. */
+			isRetry?: boolean;
+			streamingTranscription?: StreamingTranscription;
+			onSettled?: (recording: Recording) => void;
+		} = {},
+	) => {
+		if (isRetry) {
+			updateRecording.mutate(recording);
+		} else {
+			createRecording.mutate(recording);
+		}
+
+		const run = {
+			recordingId: recording.id,
+			controller: new AbortController(),
+			insertToCursor,
+		};
+		const { signal } = run.controller;
+		inFlightRuns.add(run);
+		onInFlightRunsChange();
+
+		const settle = (settledRecording: Recording) => {
+			inFlightRuns.delete(run);
+			onInFlightRunsChange();
+			onSettled?.(settledRecording);
+		};
+
+		const settleCanceled = (canceledRecording: Recording) => {
+			const savedRecording = {
+				...canceledRecording,
+				transcriptionStatus: 'CANCELED',
+				retry: undefined,
+			} satisfies Recording;
+			updateRecording.mutate(savedRecording);
+			settle(savedRecording);
+		};
+
+		// transcribe.
+		const transcribeToastId = nanoid();
+		transcriber.transcribeRecording.mutate(
+			{
+				recording,
+				toastId: transcribeToastId,
+				language: recording.language,
+				task: recording.task ?? 'transcribe',
+				streamingTranscription,
+				signal,
+			},
+			{
+				onSuccess: (transcriberOutput) => {
+					// Streamed text isn't sent in one abortable request
+					if (signal.aborted) {
+						settleCanceled(recording);
+						toast.info({
+							id: transcribeToastId,
+							title: '🚫 Transcription canceled',
+							description: 'The transcript was not copied or pasted.',
+						});
+						return;
+					}
+					if (transcriberOutput === null) {
+						const skippedRecording = {
+							...recording,
+							transcriptionStatus: 'SKIPPED',
+							retry: undefined,
+						} satisfies Recording;
+						updateRecording.mutate(skippedRecording);
+						settle(skippedRecording);
+						return;
+					}
+					const { transcript, transcriptionService, transcriptionModel } =
+						transcriberOutput;
+					const transcribedText = transcript.text;
+					const transcribedRecording = {
+						...recording,
+						transcribedText,
+						segments: transcript.segments ?? undefined,
+						transcriptionService,
+						transcriptionModel,
+						transcriptionStatus: 'DONE',
+						retry: undefined,
+					} satisfies Recording;
+					updateRecording.mutate(transcribedRecording);
+
+					const output = (text: string) => {
+						// The user may have moved on to another window since canceling
+						if (signal.aborted) return;
+						// if copy to clipboard is enabled, copy the transcription to clipboard
+						if (settings.value['transcription.copyToClipboardOnSuccess']) {
+							writeTextToClipboard(text);
+						}
+						if (
+							insertToCursor &&
+							settings.value['transcription.insertToCursorOnSuccess']
+						) {
+							writeTextToCursor(text);
+						}
+					};
+
+					const config = settings.value['postProcessing.config'];
+					if (config.type !== 'none') {
+						const transformToastId = nanoid();
+						transformer.transform.mutate(
+							{
+								input: transcribedText,
+								config,
+								toastId: transformToastId,
+								signal,
+							},
+							{
+								onSuccess: (transformedText) => {
+									const transformedRecording = {
+										...transcribedRecording,
+										transformedText,
+									} satisfies Recording;
+									if (signal.aborted) {
+										settleCanceled(transformedRecording);
+										return;
+									}
+									updateRecording.mutate(transformedRecording);
+									output(transformedText);
+									settle(transformedRecording);
+								},
+								onError: () => {
+									if (signal.aborted) {
+										settleCanceled(transcribedRecording);
+										return;
+									}
+									settle(transcribedRecording);
+								},
+							},
+						);
+					} else {
+						output(transcribedText);
+						settle(transcribedRecording);
+					}
+				},
+				onError: (error, { toastId }) => {
+					// The transcriber already said it was canceled
+					if (signal.aborted) {
+						settleCanceled(recording);
+						return;
+					}
+					if (error.isRetryable) {
+						const attempts = (recording.retry?.attempts ?? 0) + 1;
+						const queuedRecording = {
+							...recording,
+							transcriptionStatus: 'QUEUED',
+							retry: {
+								attempts,
+								nextAttemptAt: getNextRetryAt(attempts),
+								lastErrorTitle: error.title,
+							},
+						} satisfies Recording;
+						updateRecording.mutate(queuedRecording, {
+							onSuccess: () => void retryQueue.reschedule(),
+						});
+						settle(queuedRecording);
+						toast.info({
+							id: toastId,
+							title: '📥 Transcription queued',
+							description: `${error.description} Your recording is saved and will be retried automatically. The result will be copied, not pasted.`,
+							action: { type: 'link', label: 'View queue', goto: '/history' },
+						});
+						return;
+					}
+					const failedRecording = {
+						...recording,
+						transcriptionStatus: 'FAILED',
+						retry: undefined,
+					} satisfies Recording;
+					updateRecording.mutate(failedRecording);
+					settle(failedRecording);
+					toast.error({ id: toastId, ...error });
+					void playSoundIfEnabled('error');
+				},
+			},
+		);
+	};
+
+	/**
+	 * Queued recordings are retried long after the user has moved on, so
+	 * the result is never pasted at the cursor. A recording already being
+	 * retried is skipped, since the queue, reconnecting and "Retry now" can
+	 * all ask for it before its status is saved.
+	 */
+	const retryRecording = (recording: Recording) => {
+		const isInFlight = [...inFlightRuns].some(
+			(run) => run.recordingId === recording.id,
+		);
+		if (isInFlight) return;
+		transcribeAndOutputRecording(
+			{ ...recording, transcriptionStatus: 'TRANSCRIBING' },
+			{ insertToCursor: false, isRetry: true },
+		);
+	};
+
+	const retryQueue = createRetryQueue({ retryRecording });
+
 	const invalidateRecorderState = () =>
 		queryClient.invalidateQueries({ queryKey: recorderKeys.state });
 
@@ -59,15 +365,132 @@ function createRecorder({
 		initialData: 'IDLE' as const,
 	}));
 
+	const invalidateVadState = () =>
+		queryClient.invalidateQueries({ queryKey: recorderKeys.vadState });
+
+	const vadState = createResultQuery(() => ({
+		queryKey: recorderKeys.vadState,
+		queryFn: () => VadService.getVadState(),
+		initialData: 'IDLE' as const,
+	}));
+
+	const appliedAudioProcessing = createResultQuery(() => ({
+		queryKey: recorderKeys.appliedAudioProcessing,
+		queryFn: () => userConfiguredServices.recorder.getAppliedAudioProcessing(),
+	}));
+
+	const startVadSession = createResultMutation(() => ({
+		mutationFn: async ({
+			language,
+			task,
+		}: {
+			toastId: string;
+			language: LanguageType;
+			task: TranscriptionTask;
+		}) => {
+			const startListeningResult = await VadService.startActiveListening(
+				{
+					preferredDeviceIds: settings.value['recording.devicePriority'],
+					audioProcessing: getAudioProcessingSettings(),
+				},
+				{
+					onSpeechStart: () => {
+						console.info('Speech detected');
+						void invalidateVadState();
+					},
+					onSpeechEnd: ({ blob, durationMs }) => {
+						console.info('Speech segment ended');
+						void invalidateVadState();
+						const now = new Date().toISOString();
+						transcribeAndOutputRecording({
+							id: nanoid(),
+							blob,
+							transcribedText: '',
+							transformedText: null,
+							transcriptionService:
+								settings.value['transcription.selectedTranscriptionService'],
+							transcriptionModel: userConfiguredServices.transcriptionModel,
+							language,
+							task,
+							durationMs,
+							transcriptionStatus: 'TRANSCRIBING',
+							createdAt: now,
+							updatedAt: now,
+						});
+					},
+				},
+			);
+			return startListeningResult;
+		},
+		onError: (error, { toastId }) => {
+			toast.error({ id: toastId, ...error });
+			void playSoundIfEnabled('error');
+		},
+		onSuccess: () => {
+			showRecorderIndicator();
+
+			console.info('Voice activated session started');
+			void playSoundIfEnabled('start-vad');
+		},
+		onSettled: invalidateVadState,
+	}));
+
+	const stopVadSession = createResultMutation(() => ({
+		mutationFn: async () => {
+			const stopListeningResult = await VadService.stopActiveListening();
+			return stopListeningResult;
+		},
+		onError: (error, { toastId }: { toastId: string }) => {
+			toast.error({ id: toastId, ...error });
+			void playSoundIfEnabled('error');
+		},
+		onSuccess: () => {
+			hideRecorderIndicator();
+
+			console.info('Voice activated session stopped');
+			void playSoundIfEnabled('on-stopped-voice-activated-session');
+		},
+		onSettled: invalidateVadState,
+	}));
+
 	const startRecording = createResultMutation(() => ({
 		onMutate: async ({ toastId }) => {
+			clearSessionIdleTimeout();
 			await ensureRecordingSession.mutateAsync(toastId);
 		},
-		mutationFn: async ({ toastId }: { toastId: string }) => {
+		mutationFn: async ({
+			language,
+			task,
+		}: {
+			toastId: string;
+			language: LanguageType;
+			task: TranscriptionTask;
+		}) => {
+			const recordingId = nanoid();
+			// Partial text would be in the spoken language, not English, and
+			// windows are joined without their timestamps
+			const streamingTranscription =
+				settings.value['transcription.streaming.enabled'] &&
+				!settings.value['transcription.timestamps.enabled'] &&
+				task === 'transcribe'
+					? createStreamingTranscription({
+							language,
+							onPartialText: sendPartialTextToRecorderIndicator,
+						})
+					: null;
 			const startRecordingResult =
-				await userConfiguredServices.recorder.startRecording(nanoid(), {
-					sendStatus: () => { }
+				await userConfiguredServices.recorder.startRecording(recordingId, {
+					sendStatus: () => { },
+					onInputLevel: sendInputLevelToRecorderIndicator,
+					onRecordingSamples: streamingTranscription?.pushSamples,
 				});
+			if (startRecordingResult.ok) {
+				resetCurrentRecording();
+				currentRecordingId = recordingId;
+				currentRecordingStartedAt = Date.now();
+				currentStreamingTranscription = streamingTranscription;
+				currentRecordingTask = task;
+			}
 			return startRecordingResult;
 		},
 		onError: (error, { toastId }) => {
@@ -83,6 +506,48 @@ function createRecorder({
 		onSettled: invalidateRecorderState,
 	}));
 
+	const pauseRecording = createResultMutation(() => ({
+		mutationFn: async () => {
+			const pauseResult = await userConfiguredServices.recorder.pauseRecording({
+				sendStatus: () => {},
+			});
+			if (pauseResult.ok) currentRecordingPausedAt = Date.now();
+			return pauseResult;
+		},
+		onError: (error, { toastId }: { toastId: string }) => {
+			toast.error({ id: toastId, ...error });
+			void playSoundIfEnabled('error');
+		},
+		onSuccess: () => {
+			setRecorderIndicatorPaused(true);
+			console.info('Recording paused');
+		},
+		onSettled: invalidateRecorderState,
+	}));
+
+	const resumeRecording = createResultMutation(() => ({
+		mutationFn: async () => {
+			const resumeResult =
+				await userConfiguredServices.recorder.resumeRecording({
+					sendStatus: () => {},
+				});
+			if (resumeResult.ok && currentRecordingPausedAt !== null) {
+				currentRecordingPausedMs += Date.now() - currentRecordingPausedAt;
+				currentRecordingPausedAt = null;
+			}
+			return resumeResult;
+		},
+		onError: (error, { toastId }: { toastId: string }) => {
+			toast.error({ id: toastId, ...error });
+			void playSoundIfEnabled('error');
+		},
+		onSuccess: () => {
+			setRecorderIndicatorPaused(false);
+			console.info('Recording resumed');
+		},
+		onSettled: invalidateRecorderState,
+	}));
+
 	const stopRecording = createResultMutation(() => ({
 		mutationFn: async ({
 			toastId,
@@ -105,74 +570,52 @@ function createRecorder({
 
 			hideRecorderIndicator();
 
-			closeRecordingSession.mutate(
-				{
-					sendStatus: () => { },
-				},
-				{
-					onError: (error) => {
-						void playSoundIfEnabled('error');
-						toast.warning({
-							id: toastId,
-							title: '⚠️ Unable to close session after recording',
-							description:
-								'You might need to restart the application to continue recording',
-							action: {
-								type: 'more-details',
-								error: error,
-							},
-						});
-					},
+			closeRecordingSessionWhenIdle({
+				onError: (error) => {
+					void playSoundIfEnabled('error');
+					toast.warning({
+						id: toastId,
+						title: '⚠️ Unable to close session after recording',
+						description:
+							'You might need to restart the application to continue recording',
+						action: {
+							type: 'more-details',
+							error: error,
+						},
+					});
 				},
-			);
+			});
 
-			// transcribe.
-			const transcribeToastId = nanoid();
-			transcriber.transcribeRecording.mutate(
-				{
-					recording: {
-						blob,
-					},
-					toastId: transcribeToastId,
-					language: language,
-				},
-				{
-					onSuccess: (transcribedText) => {
-						const output = (text: string) => {
-							// if copy to clipboard is enabled, copy the transcription to clipboard
-							if (settings.value['transcription.copyToClipboardOnSuccess']) {
-								writeTextToClipboard(text);
-							}
-							if (settings.value['transcription.insertToCursorOnSuccess']) {
-								writeTextToCursor(text);
-							}
-						};
-
-						const config = settings.value['postProcessing.config'];
-						if (config.type !== 'none') {
-							const transformToastId = nanoid();
-							transformer.transform.mutate(
-								{
-									input: transcribedText,
-									config,
-									toastId: transformToastId,
-								},
-								{
-									onSuccess: (transformedText) => {
-										output(transformedText);
-									},
-								},
-							);
-						} else {
-							output(transcribedText);
-						}
-					},
-					onError: (error, { toastId }) => {
-						toast.error({ id: toastId, ...error });
-						void playSoundIfEnabled('error');
-					},
-				},
-			);
+			const stoppedAt = Date.now();
+			const recordingStartedAt = currentRecordingStartedAt ?? stoppedAt;
+			const pausedMs =
+				currentRecordingPausedMs +
+				(currentRecordingPausedAt !== null
+					? stoppedAt - currentRecordingPausedAt
+					: 0);
+			const recordingId = currentRecordingId ?? nanoid();
+			const streamingTranscription = currentStreamingTranscription;
+			const task = currentRecordingTask;
+			resetCurrentRecording();
+			const now = new Date().toISOString();
+			const recording: Recording = {
+				id: recordingId,
+				blob,
+				transcribedText: '',
+				transformedText: null,
+				transcriptionService:
+					settings.value['transcription.selectedTranscriptionService'],
+				transcriptionModel: userConfiguredServices.transcriptionModel,
+				language,
+				task,
+				durationMs: stoppedAt - recordingStartedAt - pausedMs,
+				transcriptionStatus: 'TRANSCRIBING',
+				createdAt: now,
+				updatedAt: now,
+			};
+			transcribeAndOutputRecording(recording, {
+				streamingTranscription: streamingTranscription ?? undefined,
+			});
 		},
 		onSettled: invalidateRecorderState,
 	}));
@@ -182,17 +625,31 @@ function createRecorder({
 			const ensureRecordingSessionResult =
 				await userConfiguredServices.recorder.ensureRecordingSession(
 					{
-						deviceId: settings.value['recording.selectedAudioInputDeviceId'],
+						preferredDeviceIds: settings.value['recording.devicePriority'],
 						bitsPerSecond:
 							Number(settings.value['recording.bitrateKbps']) * 1000,
+						mimeType:
+							settings.value['recording.mimeType'] === 'auto'
+								? null
+								: settings.value['recording.mimeType'],
+						preRollMs: settings.value['recording.preRollMs'],
+						audioProcessing: getAudioProcessingSettings(),
 					},
 					{
 						sendStatus: () => { },
+						onDeviceChangeWarning: (status) => {
+							toast.warning(status);
+						},
 					},
 				);
 			return ensureRecordingSessionResult;
 		},
-		onSettled: invalidateRecorderState,
+		onSettled: () => {
+			void invalidateRecorderState();
+			void queryClient.invalidateQueries({
+				queryKey: recorderKeys.appliedAudioProcessing,
+			});
+		},
 	}));
 
 	const closeRecordingSession = createResultMutation(() => ({
@@ -222,49 +679,247 @@ function createRecorder({
 			toast.error({ id: toastId, ...error });
 		},
 		onSuccess: async (_data, { toastId }) => {
-			closeRecordingSession.mutate(
-				{
-					sendStatus: () => { },
-				},
-				{
-					onSuccess: () => {
-						void playSoundIfEnabled('cancel');
-						console.info('Recording cancelled');
-					},
-					onError: (error) => {
-						toast.error({
-							id: toastId,
-							title: '❌ Failed to close session while cancelling recording',
-							description:
-								'Your recording was cancelled but we encountered an issue while closing your session. You may need to restart the application.',
-							action: { type: 'more-details', error: error },
-						});
-						
-						void playSoundIfEnabled('error');
-					},
+			currentStreamingTranscription?.cancel();
+			resetCurrentRecording();
+			void playSoundIfEnabled('cancel');
+			console.info('Recording cancelled');
+			closeRecordingSessionWhenIdle({
+				onError: (error) => {
+					toast.error({
+						id: toastId,
+						title: '❌ Failed to close session while cancelling recording',
+						description:
+							'Your recording was cancelled but we encountered an issue while closing your session. You may need to restart the application.',
+						action: { type: 'more-details', error: error },
+					});
+
+					void playSoundIfEnabled('error');
 				},
-			);
+			});
 		},
 		onSettled: invalidateRecorderState,
 	}));
 
+	/**
+	 * Pre-roll can only buffer audio while the microphone is open, so the
+	 * session stays open between recordings when it's enabled.
+	 */
+	const shouldKeepSessionWarm = () =>
+		settings.value['recording.preRollMs'] > 0 &&
+		settings.value['recording.mode'] !== 'vad';
+
+	const warmUpRecordingSession = () => {
+		if (!shouldKeepSessionWarm()) return;
+		ensureRecordingSession.mutate(nanoid(), {
+			onError: (error) => {
+				toast.warning(error);
+			},
+		});
+	};
+
+	warmUpRecordingSession();
+
+	let sessionIdleTimeout: ReturnType<typeof setTimeout> | null = null;
+
+	const clearSessionIdleTimeout = () => {
+		if (sessionIdleTimeout) clearTimeout(sessionIdleTimeout);
+		sessionIdleTimeout = null;
+	};
+
+	/**
+	 * Closes the session after a recording, or later if the
+	 * `recording.sessionIdleTimeout` setting keeps it open so the next
+	 * press can skip `getUserMedia`.
+	 */
+	const closeRecordingSessionWhenIdle = ({
+		onError,
+	}: {
+		onError: (error: WhisperingErrProperties) => void;
+	}) => {
+		clearSessionIdleTimeout();
+		if (shouldKeepSessionWarm()) return;
+		const close = () =>
+			closeRecordingSession.mutate({ sendStatus: noop }, { onError });
+		switch (settings.value['recording.sessionIdleTimeout']) {
+			case 'immediately': {
+				close();
+				return;
+			}
+			case 'afterSeconds': {
+				sessionIdleTimeout = setTimeout(
+					close,
+					settings.value['recording.sessionIdleTimeoutSeconds'] * 1000,
+				);
+				return;
+			}
+			case 'untilHidden': {
+				// Recording from the tray shouldn't leave the microphone open
+				if (document.visibilityState === 'hidden') close();
+				return;
+			}
+		}
+	};
+
+	document.addEventListener('visibilitychange', () => {
+		if (
+			document.visibilityState !== 'hidden' ||
+			settings.value['recording.sessionIdleTimeout'] !== 'untilHidden' ||
+			recorderState.data !== 'SESSION' ||
+			shouldKeepSessionWarm()
+		) {
+			return;
+		}
+		closeRecordingSession.mutate(
+			{ sendStatus: noop },
+			{
+				onError: (error) => {
+					toast.warning(error);
+				},
+			},
+		);
+	});
+
+	const toggleRecording = async (
+		start: boolean,
+		language?: LanguageType,
+		task?: TranscriptionTask,
+	) => {
+		const resolvedLanguage = language || 'auto';
+		const resolvedTask = task ?? settings.value['transcription.task'];
+		const toastId = nanoid();
+		if (settings.value['recording.mode'] === 'vad') {
+			if (start) {
+				startVadSession.mutate({
+					toastId,
+					language: resolvedLanguage,
+					task: resolvedTask,
+				});
+			} else {
+				stopVadSession.mutate({ toastId });
+			}
+			return;
+		}
+		if (start) {
+			startRecording.mutate({
+				toastId,
+				language: resolvedLanguage,
+				task: resolvedTask,
+			});
+		} else {
+			stopRecording.mutate({ toastId, language: resolvedLanguage });
+		}
+	};
+
 	return {
 		get recorderState() {
+			// A voice activated session keeps listening between segments, so
+			// the record buttons show it as recording for its whole lifetime.
+			if ((vadState.data ?? 'IDLE') !== 'IDLE') return 'SESSION+RECORDING';
 			return recorderState.data ?? 'IDLE';
 		},
-		toggleRecording: async (start: boolean, language?: LanguageType) => {
-			const resolvedLanguage = language || 'auto';
+		get vadState() {
+			return vadState.data ?? 'IDLE';
+		},
+		/**
+		 * What the browser actually applied of the requested audio
+		 * processing, or `null` until a session has been opened.
+		 */
+		get appliedAudioProcessing() {
+			return appliedAudioProcessing.data ?? null;
+		},
+		toggleRecording,
+		/**
+		 * Transcribes an existing audio file like a finished recording. The
+		 * result goes to history and the clipboard, but never the cursor,
+		 * since the user is looking at this window rather than a text field.
+		 */
+		transcribeAudioFile: async (
+			file: File,
+			{
+				language = 'auto',
+				task = settings.value['transcription.task'],
+				onSettled,
+			}: {
+				language?: LanguageType;
+				task?: TranscriptionTask;
+				onSettled?: (recording: Recording) => void;
+			} = {},
+		) => {
+			const durationMs = await getAudioDurationMs(file);
+			const now = new Date().toISOString();
+			const recording: Recording = {
+				id: nanoid(),
+				blob: file,
+				transcribedText: '',
+				transformedText: null,
+				transcriptionService:
+					settings.value['transcription.selectedTranscriptionService'],
+				transcriptionModel: userConfiguredServices.transcriptionModel,
+				language,
+				task,
+				durationMs,
+				transcriptionStatus: 'TRANSCRIBING',
+				createdAt: now,
+				updatedAt: now,
+			};
+			transcribeAndOutputRecording(recording, {
+				insertToCursor: false,
+				onSettled,
+			});
+			return recording;
+		},
+		/** Retries a queued recording now instead of waiting for its turn. */
+		retryQueuedRecording: retryRecording,
+		/** Takes a recording out of the retry queue and marks it failed. */
+		discardQueuedRecording: (recording: Recording) => {
+			updateRecording.mutate({
+				...recording,
+				transcriptionStatus: 'FAILED',
+				retry: undefined,
+			});
+		},
+		/** Pauses an in-progress recording, or resumes it if it's paused. */
+		togglePause: () => {
 			const toastId = nanoid();
-			if (start) {
-				startRecording.mutate({ toastId });
-			} else {
-				stopRecording.mutate({ toastId, language: resolvedLanguage });
+			if (recorderState.data === 'SESSION+PAUSED') {
+				resumeRecording.mutate({ toastId });
+			} else if (recorderState.data === 'SESSION+RECORDING') {
+				pauseRecording.mutate({ toastId });
+			}
+		},
+		/**
+		 * Push-to-talk records while the shortcut is held. In voice activated
+		 * mode a press toggles the session and releases are ignored.
+		 */
+		handleShortcut: (
+			action: 'Pressed' | 'Released',
+			language?: LanguageType,
+			task?: TranscriptionTask,
+		) => {
+			if (settings.value['recording.mode'] !== 'vad') {
+				toggleRecording(action === 'Pressed', language, task);
+				return;
 			}
+			if (action !== 'Pressed') return;
+			toggleRecording((vadState.data ?? 'IDLE') === 'IDLE', language, task);
 		},
+		cancelProcessing,
 		cancelRecorderWithToast: () => {
 			const toastId = nanoid();
 			cancelRecorder.mutate({ toastId });
 		},
+		/** Reopens the session so changed session settings take effect. */
+		reopenRecordingSession: () => {
+			closeRecordingSession.mutate(
+				{ sendStatus: noop },
+				{
+					onSuccess: warmUpRecordingSession,
+					onError: (error) => {
+						toast.error(error);
+					},
+				},
+			);
+		},
 		closeRecordingSessionSilent: () => {
 			const toastId = nanoid();
 			closeRecordingSession.mutate(
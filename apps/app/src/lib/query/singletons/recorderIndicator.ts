@@ -1,9 +1,130 @@
 import { LogicalSize, LogicalPosition } from "@tauri-apps/api/dpi";
+import { emitTo, listen } from "@tauri-apps/api/event";
 import { WebviewWindow } from "@tauri-apps/api/webviewWindow";
 
+const RECORDER_INDICATOR_WINDOW_LABEL = 'recording';
+
+/** Event names are mirrored in `recording.html`, which can't import this module. */
+const INPUT_LEVEL_EVENT = 'recorder-input-level';
+const INPUT_LEVEL_RESET_EVENT = 'recorder-input-level-reset';
+const PAUSED_EVENT = 'recorder-paused';
+const PARTIAL_TEXT_EVENT = 'recorder-partial-text';
+const PROCESSING_EVENT = 'recorder-processing';
+/** Sent by the indicator when its cancel button is clicked. */
+const CANCEL_PROCESSING_EVENT = 'recorder-cancel-processing';
+
+/** The indicator grows to fit partial transcripts when they're shown. */
+const PARTIAL_TEXT_WINDOW_WIDTH = 360;
+const PARTIAL_TEXT_WINDOW_HEIGHT = 110;
+
 let recorderIndicatorWindow: WebviewWindow | null = null;
+let isShowingPartialText = false;
+/** Whether the indicator is shown for a recording, rather than processing. */
+let isShownForRecording = false;
+let isProcessing = false;
+
+/**
+ * Sends the live microphone level (0 to 1) to the recorder indicator so it
+ * can draw the bars from real input instead of a fixed animation.
+ */
+export const sendInputLevelToRecorderIndicator = (level: number) => {
+	if (!recorderIndicatorWindow) return;
+	emitTo(RECORDER_INDICATOR_WINDOW_LABEL, INPUT_LEVEL_EVENT, { level }).catch(
+		(error) => {
+			console.error('Error sending input level to recorder indicator:', error);
+		},
+	);
+};
+
+/** Switches the recorder indicator between its recording and paused looks. */
+export const setRecorderIndicatorPaused = (paused: boolean) => {
+	if (!recorderIndicatorWindow) return;
+	emitTo(RECORDER_INDICATOR_WINDOW_LABEL, PAUSED_EVENT, { paused }).catch(
+		(error) => {
+			console.error('Error sending paused state to recorder indicator:', error);
+		},
+	);
+};
+
+/**
+ * Shows the text transcribed so far below the bars, for recordings that are
+ * transcribed while they're still going.
+ */
+export const sendPartialTextToRecorderIndicator = (text: string) => {
+	if (!recorderIndicatorWindow) return;
+	if (!isShowingPartialText) {
+		isShowingPartialText = true;
+		const screenSize = window.screen;
+		const x = (screenSize.width - PARTIAL_TEXT_WINDOW_WIDTH) / 2;
+		const y = screenSize.height - PARTIAL_TEXT_WINDOW_HEIGHT - 150;
+		void recorderIndicatorWindow.setSize(
+			new LogicalSize(PARTIAL_TEXT_WINDOW_WIDTH, PARTIAL_TEXT_WINDOW_HEIGHT),
+		);
+		void recorderIndicatorWindow.setPosition(new LogicalPosition(x, y));
+	}
+	emitTo(RECORDER_INDICATOR_WINDOW_LABEL, PARTIAL_TEXT_EVENT, { text }).catch(
+		(error) => {
+			console.error('Error sending partial text to recorder indicator:', error);
+		},
+	);
+};
+
+/**
+ * Calls `onCancel` when the cancel button on the processing indicator is
+ * clicked. Returns a function that stops listening.
+ */
+export const listenForRecorderIndicatorCancel = (onCancel: () => void) =>
+	listen(CANCEL_PROCESSING_EVENT, onCancel);
+
+/**
+ * Keeps the indicator up with a cancel button while a recording that will be
+ * pasted is still being transcribed or post-processed. While recording, the
+ * indicator shows the recording instead, and switches to this when it stops.
+ */
+export const setRecorderIndicatorProcessing = (processing: boolean) => {
+	isProcessing = processing;
+	if (isShownForRecording) return;
+	if (processing) {
+		showRecorderIndicatorWindow();
+		sendProcessingToRecorderIndicator(true);
+	} else {
+		hideRecorderIndicatorWindow();
+	}
+};
+
+const sendProcessingToRecorderIndicator = (processing: boolean) => {
+	if (!recorderIndicatorWindow) return;
+	emitTo(RECORDER_INDICATOR_WINDOW_LABEL, PROCESSING_EVENT, {
+		processing,
+	}).catch((error) => {
+		console.error(
+			'Error sending processing state to recorder indicator:',
+			error,
+		);
+	});
+};
 
 export const showRecorderIndicator = () => {
+	isShownForRecording = true;
+	showRecorderIndicatorWindow();
+	sendProcessingToRecorderIndicator(false);
+};
+
+export const hideRecorderIndicator = () => {
+	isShownForRecording = false;
+	if (isProcessing) {
+		emitTo(RECORDER_INDICATOR_WINDOW_LABEL, INPUT_LEVEL_RESET_EVENT).catch(
+			(error) => {
+				console.error('Error resetting recorder indicator input level:', error);
+			},
+		);
+		sendProcessingToRecorderIndicator(true);
+		return;
+	}
+	hideRecorderIndicatorWindow();
+};
+
+const showRecorderIndicatorWindow = () => {
 	if (!recorderIndicatorWindow) {
 		try {
 			// Get the screen size
@@ -18,17 +139,20 @@ export const showRecorderIndicator = () => {
 			const y = screenHeight - windowHeight - 150;
 
 			// Open a new Tauri window in hidden mode
-			recorderIndicatorWindow = new WebviewWindow('recording', {
-				url: 'recording.html',
-				resizable: false,
-				decorations: false,
-				transparent: true,
-				alwaysOnTop: true,
-				visible: false,
-				shadow: false,
-				skipTaskbar: true,
-				focus: false,
-			});
+			recorderIndicatorWindow = new WebviewWindow(
+				RECORDER_INDICATOR_WINDOW_LABEL,
+				{
+					url: 'recording.html',
+					resizable: false,
+					decorations: false,
+					transparent: true,
+					alwaysOnTop: true,
+					visible: false,
+					shadow: false,
+					skipTaskbar: true,
+					focus: false,
+				},
+			);
 
 			// Set the position of the window
 			recorderIndicatorWindow.setSize(
@@ -62,6 +186,13 @@ export const showRecorderIndicator = () => {
 			const x = (screenWidth - windowWidth) / 2;
 			const y = screenHeight - windowHeight - 150;
 
+			// Shrink back in case the last recording showed partial text
+			if (isShowingPartialText) {
+				isShowingPartialText = false;
+				recorderIndicatorWindow?.setSize(
+					new LogicalSize(windowWidth, windowHeight),
+				);
+			}
 			recorderIndicatorWindow?.setPosition(new LogicalPosition(x, y));
 
 			console.log('Recorder indicator window shown successfully');
@@ -71,8 +202,14 @@ export const showRecorderIndicator = () => {
 		});
 };
 
-export const hideRecorderIndicator = () => {
+const hideRecorderIndicatorWindow = () => {
 	if (recorderIndicatorWindow) {
+		emitTo(RECORDER_INDICATOR_WINDOW_LABEL, INPUT_LEVEL_RESET_EVENT).catch(
+			(error) => {
+				console.error('Error resetting recorder indicator input level:', error);
+			},
+		);
+
 		recorderIndicatorWindow
 			.hide()
 			.then(() => {
@@ -0,0 +1,98 @@
+import { DbService } from '$lib/services';
+import type { Recording } from '$lib/services/db/DbService';
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 30 * 60_000;
+
+/** Doubles the wait after every failed attempt, up to half an hour. */
+export const getNextRetryAt = (attempts: number) =>
+	new Date(
+		Date.now() +
+			Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS),
+	).toISOString();
+
+/**
+ * Retries recordings that are `QUEUED` in the database once they're due.
+ * Since the queue lives in the database, it survives restarts. `retryRecording`
+ * may be asked for a recording it's already retrying, and should skip it.
+ */
+export function createRetryQueue({
+	retryRecording,
+}: {
+	retryRecording: (recording: Recording) => void;
+}) {
+	let nextCheckTimeout: ReturnType<typeof setTimeout> | null = null;
+
+	const retryDueRecordings = async ({ ignoreBackoff = false } = {}) => {
+		if (nextCheckTimeout) clearTimeout(nextCheckTimeout);
+		nextCheckTimeout = null;
+
+		const queuedRecordingsResult =
+			await DbService.getRecordingsByTranscriptionStatus('QUEUED');
+		if (!queuedRecordingsResult.ok) {
+			console.error(
+				'Unable to load the retry queue:',
+				queuedRecordingsResult.error,
+			);
+			return;
+		}
+		// Retrying while offline would only push the next attempt further out
+		if (!navigator.onLine) return;
+
+		let nextDueAt = Number.POSITIVE_INFINITY;
+		for (const recording of queuedRecordingsResult.data) {
+			const dueAt = recording.retry
+				? Date.parse(recording.retry.nextAttemptAt)
+				: Date.now();
+			if (ignoreBackoff || dueAt <= Date.now()) {
+				retryRecording(recording);
+			} else {
+				nextDueAt = Math.min(nextDueAt, dueAt);
+			}
+		}
+		if (Number.isFinite(nextDueAt)) {
+			nextCheckTimeout = setTimeout(
+				() => void retryDueRecordings(),
+				nextDueAt - Date.now(),
+			);
+		}
+	};
+
+	/**
+	 * Recordings still `TRANSCRIBING` at startup were cut off by a quit or
+	 * crash, so they're queued again.
+	 */
+	const requeueInterruptedRecordings = async () => {
+		const interruptedRecordingsResult =
+			await DbService.getRecordingsByTranscriptionStatus('TRANSCRIBING');
+		if (!interruptedRecordingsResult.ok) {
+			console.error(
+				'Unable to load interrupted recordings:',
+				interruptedRecordingsResult.error,
+			);
+			return;
+		}
+		for (const recording of interruptedRecordingsResult.data) {
+			const updateResult = await DbService.updateRecording({
+				...recording,
+				transcriptionStatus: 'QUEUED',
+			});
+			if (!updateResult.ok) {
+				console.error(
+					'Unable to requeue an interrupted recording:',
+					updateResult.error,
+				);
+			}
+		}
+	};
+
+	window.addEventListener('online', () => {
+		void retryDueRecordings({ ignoreBackoff: true });
+	});
+	void requeueInterruptedRecordings().then(() => retryDueRecordings());
+
+	return {
+		/** Call after queueing a recording so its attempt gets scheduled. */
+		reschedule: () => retryDueRecordings(),
+	};
+}
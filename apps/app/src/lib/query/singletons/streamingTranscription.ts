@@ -0,0 +1,265 @@
+import { MonthlyBudgetReachedErr } from '$lib/services/UsageService';
+import { UsageService, userConfiguredServices } from '$lib/services/index.js';
+import type { LanguageType } from '$lib/services/transcription/TranscriptionService';
+import { settings } from '$lib/stores/settings.svelte';
+import {
+	WHISPER_SAMPLE_RATE,
+	decodeAudioBlob,
+	encodeWav,
+	findSpeech,
+	resampleAudio,
+	splitOnSilence,
+} from '$lib/utils/audio';
+import { Ok, tryAsync } from '@epicenterhq/result';
+import { WhisperingErr, type WhisperingResult } from '@repo/shared';
+
+/** Audio is transcribed in windows of about this long while recording. */
+const STREAMING_WINDOW_S = 20;
+/**
+ * Each window starts this far before the previous one ended, so a word cut
+ * at the boundary is heard whole at least once. The repeated words are
+ * dropped when the texts are joined.
+ */
+const STREAMING_OVERLAP_S = 1;
+/** Looking for a pause to cut at isn't free, so don't check too often. */
+const STREAMING_CHECK_INTERVAL_MS = 5000;
+/** How many words at a window boundary are compared to find repeats. */
+const MAX_OVERLAP_WORDS = 12;
+
+export type StreamingTranscription = ReturnType<
+	typeof createStreamingTranscription
+>;
+
+/**
+ * Transcribes a recording in the background while it's still going. Feed it
+ * the audio as it's recorded with `pushSamples`, and call `finish` with the
+ * complete recording to transcribe only what's left and get the full text.
+ * Only audio that isn't transcribed yet is kept, so long recordings cost no
+ * more per window than short ones.
+ */
+export function createStreamingTranscription({
+	language,
+	onPartialText,
+}: {
+	language: LanguageType;
+	onPartialText: (text: string) => void;
+}) {
+	let transcribedText = '';
+	/** Set by the first `pushSamples`, which not every recorder calls. */
+	let recordedSampleRate: number | null = null;
+	/** Pushed audio from sample index `recordedStart` on. */
+	const recordedBlocks: Float32Array[] = [];
+	let recordedStart = 0;
+	let recordedEnd = 0;
+	/** Sample index where the next window starts, before its overlap. */
+	let transcribedUntil = 0;
+	let lastCheckAt = 0;
+	let pendingWindow: Promise<void> | null = null;
+	let windowError: WhisperingErr | null = null;
+	let isStopped = false;
+	/** Aborts the window being transcribed when streaming is stopped early. */
+	const controller = new AbortController();
+
+	/** Copies the pushed audio from `start` to `end` into one array. */
+	const getRecorded = (start: number, end = recordedEnd) => {
+		const samples = new Float32Array(end - start);
+		let blockStart = recordedStart;
+		for (const block of recordedBlocks) {
+			const from = Math.max(start, blockStart);
+			const to = Math.min(end, blockStart + block.length);
+			if (from < to) {
+				samples.set(
+					block.subarray(from - blockStart, to - blockStart),
+					from - start,
+				);
+			}
+			blockStart += block.length;
+		}
+		return samples;
+	};
+
+	const discardRecordedBefore = (index: number) => {
+		while (
+			recordedBlocks.length > 0 &&
+			recordedStart + recordedBlocks[0].length <= index
+		) {
+			recordedStart += recordedBlocks[0].length;
+			recordedBlocks.shift();
+		}
+	};
+
+	const transcribeSamples = async (
+		samples: Float32Array,
+		sampleRate: number,
+	) => {
+		if (settings.value['recording.silenceDetection.enabled']) {
+			const { speechDurationMs } = findSpeech(samples, {
+				sampleRate,
+				thresholdDb: settings.value['recording.silenceDetection.thresholdDb'],
+			});
+			if (
+				speechDurationMs <
+				settings.value['recording.silenceDetection.minSpeechMs']
+			) {
+				return Ok('');
+			}
+		}
+		const service =
+			settings.value['transcription.selectedTranscriptionService'];
+		const model = userConfiguredServices.transcriptionModel;
+		if (
+			UsageService.isPaidTranscription({ service, model }) &&
+			(await UsageService.isPaidUsageBlocked())
+		) {
+			return MonthlyBudgetReachedErr();
+		}
+		const resampledSamples = await resampleAudio(samples, {
+			fromSampleRate: sampleRate,
+		});
+		const transcribeResult =
+			await userConfiguredServices.transcription.transcribe(
+				encodeWav(resampledSamples),
+				{
+					outputLanguage: language,
+					prompt: settings.value['transcription.prompt'],
+					temperature: settings.value['transcription.temperature'],
+					// Windows overlap, so their timestamps can't be joined
+					timestamps: false,
+					signal: controller.signal,
+				},
+			);
+		if (!transcribeResult.ok) return transcribeResult;
+		// Overlapping audio is sent twice, so it's counted twice
+		void UsageService.recordTranscription({
+			service,
+			model,
+			audioSeconds: samples.length / sampleRate,
+		});
+		return Ok(transcribeResult.data.text);
+	};
+
+	const getWindowStart = (sampleRate: number) =>
+		Math.max(0, transcribedUntil - STREAMING_OVERLAP_S * sampleRate);
+
+	const decodeRecording = (blob: Blob) =>
+		tryAsync({
+			try: () => decodeAudioBlob(blob),
+			mapErr: (error) =>
+				WhisperingErr({
+					title: '⚠️ Unable to read recording',
+					description:
+						"We couldn't decode the recording to transcribe it while you speak.",
+					action: { type: 'more-details', error },
+				}),
+		});
+
+	const transcribeNextWindow = async (sampleRate: number) => {
+		// Only whole windows are sent, the rest waits for more audio or `finish`
+		const [nextWindow, ...rest] = splitOnSilence(
+			getRecorded(transcribedUntil),
+			{ sampleRate, maxSegmentDurationS: STREAMING_WINDOW_S },
+		);
+		if (rest.length === 0) return;
+		const windowEnd = transcribedUntil + nextWindow.length;
+		const transcribeResult = await transcribeSamples(
+			getRecorded(getWindowStart(sampleRate), windowEnd),
+			sampleRate,
+		);
+		if (!transcribeResult.ok) {
+			windowError = transcribeResult;
+			return;
+		}
+		if (isStopped) return;
+		transcribedText = joinOverlappingText(
+			transcribedText,
+			transcribeResult.data,
+		);
+		transcribedUntil = windowEnd;
+		discardRecordedBefore(getWindowStart(sampleRate));
+		if (transcribedText) onPartialText(transcribedText);
+	};
+
+	/**
+	 * Recorders that can't tap their input never push samples, so their
+	 * recording is decoded and transcribed whole.
+	 */
+	const transcribeTail = async (recording: Blob) => {
+		if (recordedSampleRate !== null) {
+			return transcribeSamples(
+				getRecorded(getWindowStart(recordedSampleRate)),
+				recordedSampleRate,
+			);
+		}
+		const decodeResult = await decodeRecording(recording);
+		if (!decodeResult.ok) return decodeResult;
+		return transcribeSamples(decodeResult.data, WHISPER_SAMPLE_RATE);
+	};
+
+	return {
+		pushSamples: (samples: Float32Array, sampleRate: number) => {
+			// The whole recording is transcribed instead after an error
+			if (isStopped || windowError) return;
+			recordedSampleRate ??= sampleRate;
+			recordedBlocks.push(samples);
+			recordedEnd += samples.length;
+			if (pendingWindow) return;
+			if (Date.now() - lastCheckAt < STREAMING_CHECK_INTERVAL_MS) return;
+			lastCheckAt = Date.now();
+			pendingWindow = transcribeNextWindow(recordedSampleRate).finally(() => {
+				pendingWindow = null;
+			});
+		},
+		/**
+		 * Transcribes whatever the background windows haven't covered yet.
+		 * Resolves to `null` if no speech was found anywhere. Aborting `signal`
+		 * cancels the streaming.
+		 */
+		finish: async (
+			recording: Blob,
+			{ signal }: { signal?: AbortSignal } = {},
+		): Promise<WhisperingResult<string | null>> => {
+			isStopped = true;
+			if (signal?.aborted) controller.abort();
+			signal?.addEventListener('abort', () => controller.abort(), {
+				once: true,
+			});
+			await pendingWindow;
+			if (windowError) return windowError;
+			const tailResult = await transcribeTail(recording);
+			if (!tailResult.ok) return tailResult;
+			const text = joinOverlappingText(transcribedText, tailResult.data);
+			return Ok(text.length > 0 ? text : null);
+		},
+		cancel: () => {
+			isStopped = true;
+			controller.abort();
+		},
+	};
+}
+
+const normalizeWord = (word: string) =>
+	word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Joins the texts of two overlapping windows, dropping the words at the
+ * start of `next` that repeat the end of `previous`.
+ */
+function joinOverlappingText(previous: string, next: string) {
+	const previousWords = previous.trim().split(/\s+/).filter(Boolean);
+	const nextWords = next.trim().split(/\s+/).filter(Boolean);
+	const maxOverlap = Math.min(
+		MAX_OVERLAP_WORDS,
+		previousWords.length,
+		nextWords.length,
+	);
+	let overlap = 0;
+	for (let length = maxOverlap; length > 0; length--) {
+		const previousTail = previousWords.slice(-length).map(normalizeWord);
+		const nextHead = nextWords.slice(0, length).map(normalizeWord);
+		if (previousTail.every((word, i) => word === nextHead[i])) {
+			overlap = length;
+			break;
+		}
+	}
+	return [...previousWords, ...nextWords.slice(overlap)].join(' ');
+}
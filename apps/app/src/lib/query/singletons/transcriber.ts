@@ -1,17 +1,41 @@
 import { createResultMutation } from '$lib/services';
 import {
+	AudioPreprocessingService,
+	RunTransformationService,
+	UsageService,
 	playSoundIfEnabled,
 	userConfiguredServices,
 } from '$lib/services/index.js';
+import { MonthlyBudgetReachedErr } from '$lib/services/UsageService';
+import type { Recording } from '$lib/services/db/DbService';
 import { toast } from '$lib/services/toast';
 import { settings } from '$lib/stores/settings.svelte';
-import { WhisperingErr, type Recording } from '@repo/shared';
+import { Ok } from '@epicenterhq/result';
+import {
+	type TRANSCRIPTION_SERVICES,
+	WhisperingErr,
+	type WhisperingResult,
+} from '@repo/shared';
 import { getContext, setContext } from 'svelte';
 import { queryClient } from '..';
-import type { LanguageType } from '$lib/services/transcription/TranscriptionService';
+import type {
+	LanguageType,
+	Transcript,
+	TranscriptionService,
+	TranscriptionTask,
+} from '$lib/services/transcription/TranscriptionService';
+import { shiftSegments } from '$lib/utils/transcript';
+import type { StreamingTranscription } from './streamingTranscription';
 
 export type Transcriber = ReturnType<typeof createTranscriber>;
 
+/** The transcript, and which provider in the fallback chain produced it. */
+export type TranscriberOutput = {
+	transcript: Transcript;
+	transcriptionService: (typeof TRANSCRIPTION_SERVICES)[number];
+	transcriptionModel: string;
+};
+
 export const initTranscriberInContext = () => {
 	const transcriber = createTranscriber();
 	setContext('transcriber', transcriber);
@@ -27,17 +51,111 @@ const transcriberKeys = {
 	transform: ['transcriber', 'transform'] as const,
 } as const;
 
+/**
+ * Converts the recording to the upload format picked in settings and checks
+ * it for speech. Returns `null` when there's nothing worth transcribing.
+ * Falls back to the original audio if processing fails, since most
+ * providers accept it.
+ */
+async function preprocessAudio(blob: Blob) {
+	const preprocessResult = await AudioPreprocessingService.preprocessAudio(
+		blob,
+		{
+			format: settings.value['recording.uploadFormat'],
+			silenceDetection: settings.value['recording.silenceDetection.enabled']
+				? {
+						thresholdDb:
+							settings.value['recording.silenceDetection.thresholdDb'],
+						minSpeechMs:
+							settings.value['recording.silenceDetection.minSpeechMs'],
+					}
+				: null,
+		},
+	);
+	if (!preprocessResult.ok) {
+		toast.warning({
+			...preprocessResult.error,
+			description: `${preprocessResult.error.description} Uploading the original recording instead.`,
+		});
+		return { blob, trimmedStartS: 0, durationS: null };
+	}
+	const preprocessedAudio = preprocessResult.data;
+	if (!preprocessedAudio.hasSpeech) return null;
+	return preprocessedAudio;
+}
+
+/** Moves timestamps back to where they are in the untrimmed recording. */
+function shiftTranscript(transcript: Transcript, offsetS: number): Transcript {
+	if (!transcript.segments) return transcript;
+	return {
+		...transcript,
+		segments: shiftSegments(transcript.segments, offsetS),
+	};
+}
+
+/**
+ * Sends audio to one provider. Translation uses the provider's own
+ * translations endpoint when it has one, and is otherwise left to the caller.
+ */
+async function transcribeWithService(
+	transcription: TranscriptionService,
+	audioBlob: Blob,
+	{
+		language,
+		task,
+		signal,
+	}: {
+		language: LanguageType;
+		task: TranscriptionTask;
+		signal: AbortSignal | undefined;
+	},
+) {
+	const timestamps = settings.value['transcription.timestamps.enabled'];
+	if (task === 'translate' && transcription.translateToEnglish) {
+		const translationResult = await transcription.translateToEnglish(
+			audioBlob,
+			{
+				temperature: settings.value['transcription.temperature'],
+				timestamps,
+				signal,
+			},
+		);
+		if (!translationResult.ok) return translationResult;
+		return Ok({ transcript: translationResult.data, isTranslated: true });
+	}
+
+	// construct the prompt
+	const transcriptionResult = await transcription.transcribe(audioBlob, {
+		outputLanguage: language,
+		prompt: settings.value['transcription.prompt'],
+		temperature: settings.value['transcription.temperature'],
+		timestamps,
+		signal,
+	});
+	if (!transcriptionResult.ok) return transcriptionResult;
+	return Ok({ transcript: transcriptionResult.data, isTranslated: false });
+}
+
 function createTranscriber() {
 	const transcribeRecording = createResultMutation(() => ({
 		mutationKey: transcriberKeys.transcribe,
 		mutationFn: async ({
 			recording,
+			toastId,
 			language,
+			task,
+			streamingTranscription,
+			signal,
 		}: {
 			recording: Recording;
 			toastId: string;
 			language: LanguageType;
-		}) => {
+			task: TranscriptionTask;
+			/** Set when the recording was partly transcribed while recording. */
+			streamingTranscription?: StreamingTranscription;
+			/** Aborting it stops the request in flight and fails the mutation. */
+			signal?: AbortSignal;
+		}): Promise<WhisperingResult<TranscriberOutput | null>> => {
 			if (!recording.blob) {
 				return WhisperingErr({
 					title: '⚠️ Recording blob not found',
@@ -45,25 +163,137 @@ function createTranscriber() {
 				});
 			}
 
-			// construct the prompt
-			const transcriptionResult =
-				await userConfiguredServices.transcription.transcribe(recording.blob, {
-					outputLanguage: language,
-					prompt: settings.value['transcription.prompt'],
-					temperature: settings.value['transcription.temperature'],
+			// Once the monthly budget is spent, paid providers can be skipped
+			const isPaidUsageBlocked = await UsageService.isPaidUsageBlocked();
+			const providers =
+				userConfiguredServices.transcriptionFallbackChain.filter(
+					(provider) =>
+						!isPaidUsageBlocked || !UsageService.isPaidTranscription(provider),
+				);
+			if (providers.length === 0) {
+				streamingTranscription?.cancel();
+				return MonthlyBudgetReachedErr();
+			}
+			const selectedService =
+				settings.value['transcription.selectedTranscriptionService'];
+
+			// Timestamps may have been turned on since the recording started
+			const canUseStreamedText =
+				providers[0].service === selectedService &&
+				!settings.value['transcription.timestamps.enabled'];
+			if (streamingTranscription && !canUseStreamedText) {
+				streamingTranscription.cancel();
+			} else if (streamingTranscription) {
+				const finishResult = await streamingTranscription.finish(
+					recording.blob,
+					{ signal },
+				);
+				if (finishResult.ok) {
+					if (finishResult.data === null) return Ok(null);
+					// Streaming already recorded the usage of each window
+					return Ok({
+						transcript: { text: finishResult.data, segments: null },
+						transcriptionService: selectedService,
+						transcriptionModel: providers[0].model,
+					});
+				}
+				if (signal?.aborted) return finishResult;
+				toast.warning({
+					...finishResult.error,
+					description: `${finishResult.error.description} Transcribing the whole recording instead.`,
 				});
+			}
+
+			const preprocessedAudio = await preprocessAudio(recording.blob);
+			if (!preprocessedAudio) return Ok(null);
+			const { blob: audioBlob, trimmedStartS, durationS } = preprocessedAudio;
+
+			let providerIndex = 0;
+			let transcriptionResult = await transcribeWithService(
+				providers[providerIndex].transcription,
+				audioBlob,
+				{ language, task, signal },
+			);
+			while (
+				!transcriptionResult.ok &&
+				transcriptionResult.error.isRetryable &&
+				providerIndex < providers.length - 1
+			) {
+				const failedProvider = providers[providerIndex];
+				providerIndex++;
+				toast.loading({
+					id: toastId,
+					title: `🔁 Trying ${providers[providerIndex].service}...`,
+					description: `${failedProvider.service} failed: ${transcriptionResult.error.title}`,
+				});
+				transcriptionResult = await transcribeWithService(
+					providers[providerIndex].transcription,
+					audioBlob,
+					{ language, task, signal },
+				);
+			}
+			if (!transcriptionResult.ok) return transcriptionResult;
+
+			const { service, model } = providers[providerIndex];
+			void UsageService.recordTranscription({
+				service,
+				model,
+				audioSeconds: durationS ?? recording.durationMs / 1000,
+			});
+			const { transcript, isTranslated } = transcriptionResult.data;
+			if (task === 'translate' && !isTranslated && transcript.text) {
+				// The service can't translate audio, so translate the text instead.
+				// Segment timestamps don't survive, since the text is rewritten.
+				const translationResult =
+					await RunTransformationService.translateToEnglish(transcript.text, {
+						signal,
+					});
+				if (!translationResult.ok) return translationResult;
+				return Ok({
+					transcript: { text: translationResult.data, segments: null },
+					transcriptionService: service,
+					transcriptionModel: model,
+				});
+			}
 
-			return transcriptionResult;
+			return Ok({
+				transcript: shiftTranscript(transcript, trimmedStartS),
+				transcriptionService: service,
+				transcriptionModel: model,
+			});
 		},
-		onError: (error, { toastId }) => {
+		onError: (error, { toastId, signal }) => {
+			if (signal?.aborted) {
+				toast.info({ id: toastId, ...error });
+				return;
+			}
+			// The recording is queued for a retry, which the recorder announces
+			if (error.isRetryable) return;
 			toast.error({ id: toastId, ...error });
 			void playSoundIfEnabled('error');
 		},
-		onSuccess: (data, { toastId }) => {			
+		onSuccess: (data, { toastId, task }) => {
+			if (data === null) {
+				toast.info({
+					id: toastId,
+					title: '🤫 No speech detected',
+					description:
+						"The recording was too quiet or too short, so it wasn't sent for transcription.",
+					action: {
+						type: 'link',
+						label: 'Adjust threshold',
+						goto: '/settings/recording',
+					},
+				});
+				return;
+			}
 			toast.success({
 				id: toastId,
-				title: '✅ Transcription successful!',
-				description: `Transcribed text: ${data}`,
+				title:
+					task === 'translate'
+						? '✅ Translation successful!'
+						: '✅ Transcription successful!',
+				description: `${task === 'translate' ? 'Translated' : 'Transcribed'} by ${data.transcriptionService}: ${data.transcript.text}`,
 			});
 			void playSoundIfEnabled('transcriptionComplete');
 		},
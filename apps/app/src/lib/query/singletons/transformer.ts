@@ -42,15 +42,19 @@ export function createTransformer() {
 		mutationFn: async ({
 			input,
 			config,
+			signal,
 		}: {
 			input: string;
 			config: PostProcessingConfig;
 			toastId:string;
+			/** Aborting it stops the LLM request and fails the mutation. */
+			signal?: AbortSignal;
 		}): Promise<WhisperingResult<string>> => {
 			const transformationRunResult =
 				await RunTransformationService.runTransformation({
 					input,
 					config,
+					signal,
 				});
 
 			if (!transformationRunResult.ok) {
@@ -59,7 +63,11 @@ export function createTransformer() {
 
 			return transformationRunResult;
 		},
-		onError: (error) => {
+		onError: (error, { toastId, signal }) => {
+			if (signal?.aborted) {
+				toast.info({ id: toastId, ...error });
+				return;
+			}
 			toast.error(error);
 		},
 	}));
@@ -0,0 +1,16 @@
+import { createResultQuery, DbService } from '$lib/services';
+import type { Accessor } from '../types';
+
+export const usageKeys = {
+	all: ['usage'] as const,
+	since: (isoDate: string) => ['usage', isoDate] as const,
+};
+
+export function useUsageRecordsQuery(sinceIsoDate: Accessor<string>) {
+	return {
+		usageRecordsQuery: createResultQuery(() => ({
+			queryKey: usageKeys.since(sinceIsoDate()),
+			queryFn: () => DbService.getUsageRecordsSince(sinceIsoDate()),
+		})),
+	};
+}
@@ -0,0 +1,161 @@
+import { getErrorMessage } from '$lib/utils';
+import type { CustomTranscriptionEndpoint } from '@repo/shared';
+import { z } from 'zod';
+import type { HttpService, HttpServiceErr } from './http/HttpService';
+import { parseHeaderLines } from './transcription/TranscriptionService.custom';
+
+/** Listing models is instant everywhere, so slower than this is a problem. */
+const CONNECTION_TEST_TIMEOUT_MS = 15_000;
+
+/** What to test: a provider's API key, or a server you run yourself. */
+export type ConnectionTestTarget =
+	| {
+			provider:
+				| 'OpenAI'
+				| 'Groq'
+				| 'Anthropic'
+				| 'Google'
+				| 'Deepgram'
+				| 'AssemblyAI';
+			apiKey: string;
+	  }
+	| { provider: 'faster-whisper-server'; serverUrl: string }
+	| { provider: 'Custom'; endpoint: CustomTranscriptionEndpoint };
+
+export type ConnectionTestResult =
+	/** The server answered and accepted the key. */
+	| { status: 'connected'; latencyMs: number }
+	/** The server answered, but rejected the key. */
+	| { status: 'invalid-key'; latencyMs: number; detail: string }
+	/** The server didn't answer in time, or couldn't be found. */
+	| { status: 'unreachable'; detail: string }
+	/** The server answered with something else, like an outage. */
+	| { status: 'error'; latencyMs: number; detail: string };
+
+const trimBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+/** A cheap authenticated request for each provider, usually listing models. */
+function getTestRequest(target: ConnectionTestTarget): {
+	url: string;
+	headers?: Record<string, string>;
+} {
+	switch (target.provider) {
+		case 'OpenAI':
+			return {
+				url: 'https://api.openai.com/v1/models',
+				headers: { Authorization: `Bearer ${target.apiKey}` },
+			};
+		case 'Groq':
+			return {
+				url: 'https://api.groq.com/openai/v1/models',
+				headers: { Authorization: `Bearer ${target.apiKey}` },
+			};
+		case 'Anthropic':
+			return {
+				url: 'https://api.anthropic.com/v1/models?limit=1',
+				headers: {
+					'anthropic-version': '2023-06-01',
+					'x-api-key': target.apiKey,
+					'anthropic-dangerous-direct-browser-access': 'true',
+				},
+			};
+		case 'Google':
+			return {
+				url: `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1&key=${encodeURIComponent(target.apiKey)}`,
+			};
+		case 'Deepgram':
+			return {
+				url: 'https://api.deepgram.com/v1/projects',
+				headers: { Authorization: `Token ${target.apiKey}` },
+			};
+		case 'AssemblyAI':
+			return {
+				url: 'https://api.assemblyai.com/v2/transcript?limit=1',
+				headers: { Authorization: target.apiKey },
+			};
+		case 'faster-whisper-server':
+			return { url: `${trimBaseUrl(target.serverUrl)}/v1/models` };
+		case 'Custom': {
+			const { endpoint } = target;
+			return {
+				url: `${trimBaseUrl(endpoint.baseUrl)}/models`,
+				headers: {
+					...parseHeaderLines(endpoint.headers),
+					...(endpoint.apiKey && {
+						Authorization: `Bearer ${endpoint.apiKey}`,
+					}),
+				},
+			};
+		}
+	}
+}
+
+/** Sorts a failed test request into what it says about the connection. */
+function classifyHttpServiceErr(
+	{ error }: HttpServiceErr,
+	{ target, latencyMs }: { target: ConnectionTestTarget; latencyMs: number },
+): ConnectionTestResult {
+	switch (error.code) {
+		case 'NetworkError':
+			return { status: 'unreachable', detail: getErrorMessage(error.error) };
+		case 'Timeout':
+			return {
+				status: 'unreachable',
+				detail: `No answer within ${CONNECTION_TEST_TIMEOUT_MS / 1000} seconds.`,
+			};
+		case 'HttpError': {
+			// Google answers invalid keys with a 400 instead of a 401
+			const isInvalidKey =
+				error.status === 401 ||
+				error.status === 403 ||
+				(target.provider === 'Google' && error.status === 400);
+			return {
+				status: isInvalidKey ? 'invalid-key' : 'error',
+				latencyMs,
+				detail: `${getErrorMessage(error.error)} (HTTP ${error.status})`,
+			};
+		}
+		case 'ParseError':
+			return {
+				status: 'error',
+				latencyMs,
+				detail: "The server's answer wasn't JSON, so it may not be the API.",
+			};
+		case 'Aborted':
+			return {
+				status: 'error',
+				latencyMs,
+				detail: 'The test was canceled.',
+			};
+	}
+}
+
+export function createConnectionTestService({
+	HttpService,
+}: {
+	HttpService: HttpService;
+}) {
+	return {
+		/**
+		 * Makes one small request with the key or server URL and reports
+		 * whether it got through, and how long the round trip took.
+		 */
+		testConnection: async (
+			target: ConnectionTestTarget,
+		): Promise<ConnectionTestResult> => {
+			const { url, headers } = getTestRequest(target);
+			const startedAt = performance.now();
+			const getResult = await HttpService.get({
+				url,
+				headers,
+				schema: z.unknown(),
+				timeoutMs: CONNECTION_TEST_TIMEOUT_MS,
+			});
+			const latencyMs = Math.round(performance.now() - startedAt);
+			if (!getResult.ok) {
+				return classifyHttpServiceErr(getResult, { target, latencyMs });
+			}
+			return { status: 'connected', latencyMs };
+		},
+	};
+}
@@ -26,29 +26,57 @@ type SetTrayIconService = {
 	setTrayIcon: (
 		icon: WhisperingRecordingState,
 	) => Promise<SetTrayIconServiceResult<void>>;
+	/**
+	 * Enables the tray's cancel item while something can be canceled, or
+	 * disables it when `onCancel` is `null`.
+	 */
+	setCancelProcessingHandler: (onCancel: (() => void) | null) => void;
 };
 
 export function createSetTrayIconDesktopService(): SetTrayIconService {
-	const trayPromise = initTray();
+	let cancelProcessingHandler: (() => void) | null = null;
+	const trayPromise = initTray({
+		onCancelProcessing: () => cancelProcessingHandler?.(),
+	});
 	return {
 		setTrayIcon: (recorderState: WhisperingRecordingState) =>
 			tryAsync({
 				try: async () => {
 					const iconPath = await getIconPath(recorderState);
-					const tray = await trayPromise;
+					const { tray } = await trayPromise;
 					return tray.setIcon(iconPath);
 				},
 				mapErr: () => SetTrayIconServiceErr(recorderState),
 			}),
+		setCancelProcessingHandler: (onCancel) => {
+			cancelProcessingHandler = onCancel;
+			void trayPromise.then(({ cancelProcessingItem }) =>
+				cancelProcessingItem?.setEnabled(onCancel !== null),
+			);
+		},
 	};
 }
 
-async function initTray() {
+async function initTray({
+	onCancelProcessing,
+}: {
+	onCancelProcessing: () => void;
+}) {
 	const existingTray = await TrayIcon.getById(TRAY_ID);
-	if (existingTray) return existingTray;
+	// The menu from before a reload can't be updated, so the item stays as is
+	if (existingTray) return { tray: existingTray, cancelProcessingItem: null };
+
+	const cancelProcessingItem = await MenuItem.new({
+		id: 'cancel-processing',
+		text: 'Cancel Transcription',
+		enabled: false,
+		action: onCancelProcessing,
+	});
 
 	const trayMenu = await Menu.new({
 		items: [
+			cancelProcessingItem,
+
 			// Window Controls Section
 			await MenuItem.new({
 				id: 'show',
@@ -96,14 +124,15 @@ async function initTray() {
 		},
 	});
 
-	return tray;
+	return { tray, cancelProcessingItem };
 }
 
 async function getIconPath(recorderState: WhisperingRecordingState) {
 	const iconPaths = {
 		IDLE: 'recorder-state-icons/studio_microphone.png',
-		SESSION: 'recorder-state-icons/studio_microphone.png',
+		SESSION: 'recorder-state-icons/studio_microphone_session.png',
 		'SESSION+RECORDING': 'recorder-state-icons/red_large_square.png',
+		'SESSION+PAUSED': 'recorder-state-icons/double_vertical_bar.png',
 	} as const satisfies Record<WhisperingRecordingState, string>;
 	return await resolveResource(iconPaths[recorderState]);
 }
@@ -0,0 +1,137 @@
+import { notificationLog } from '$lib/components/NotificationLog.svelte';
+import { settings } from '$lib/stores/settings.svelte';
+import {
+	findInferencePrice,
+	findTranscriptionPrice,
+	getStartOfMonth,
+	getUsageCostUsd,
+} from '$lib/utils/usage';
+import { Ok } from '@epicenterhq/result';
+import {
+	type INFERENCE_PROVIDERS,
+	type TRANSCRIPTION_SERVICES,
+	WhisperingErr,
+	type WhisperingResult,
+} from '@repo/shared';
+import { nanoid } from 'nanoid/non-secure';
+import type { DbService, UsageRecord } from './db/DbService';
+import { toast } from './toast';
+
+type NewUsage<TKind extends UsageRecord['kind']> = Omit<
+	Extract<UsageRecord, { kind: TKind }>,
+	'id' | 'createdAt' | 'kind'
+>;
+
+export type TranscriptionUsage = NewUsage<'transcription'>;
+export type InferenceUsage = NewUsage<'inference'>;
+
+export const MonthlyBudgetReachedErr = () =>
+	WhisperingErr({
+		title: '💸 Monthly budget reached',
+		description:
+			"You've reached this month's budget, so paid providers are paused until next month. Raise the budget or switch to a free provider to keep going.",
+		action: {
+			type: 'link',
+			label: 'Open usage',
+			goto: '/settings/usage',
+		},
+	});
+
+export type UsageService = ReturnType<typeof createUsageService>;
+
+/**
+ * Records what each request used and checks it against the monthly budget.
+ * Prices come from the settings, so only usage is stored.
+ */
+export function createUsageService({ DbService }: { DbService: DbService }) {
+	/** The month we last warned about, so the warning shows once a month. */
+	let lastWarnedMonth: string | null = null;
+
+	const addUsageRecord = async (usageRecord: UsageRecord) => {
+		const addResult = await DbService.addUsageRecord(usageRecord);
+		// Losing a usage record shouldn't fail the transcription it's for
+		if (!addResult.ok) {
+			notificationLog.addLog({ ...addResult.error, variant: 'warning' });
+		}
+	};
+
+	const getMonthSpendUsd = async (): Promise<WhisperingResult<number>> => {
+		const usageRecordsResult =
+			await DbService.getUsageRecordsSince(getStartOfMonth());
+		if (!usageRecordsResult.ok) return usageRecordsResult;
+		return Ok(
+			usageRecordsResult.data.reduce(
+				(total, usageRecord) =>
+					total + (getUsageCostUsd(usageRecord, settings.value) ?? 0),
+				0,
+			),
+		);
+	};
+
+	return {
+		recordTranscription: (usage: TranscriptionUsage) =>
+			addUsageRecord({
+				id: nanoid(),
+				createdAt: new Date().toISOString(),
+				kind: 'transcription',
+				...usage,
+			}),
+		recordInference: (usage: InferenceUsage) =>
+			addUsageRecord({
+				id: nanoid(),
+				createdAt: new Date().toISOString(),
+				kind: 'inference',
+				...usage,
+			}),
+		getMonthSpendUsd,
+		isPaidTranscription: (provider: {
+			service: (typeof TRANSCRIPTION_SERVICES)[number];
+			model: string;
+		}) => {
+			const price = findTranscriptionPrice(settings.value, provider);
+			return (price?.usdPerHour ?? 0) > 0;
+		},
+		isPaidInference: (provider: {
+			provider: (typeof INFERENCE_PROVIDERS)[number];
+			model: string;
+		}) => {
+			const price = findInferencePrice(settings.value, provider);
+			if (!price) return false;
+			return (
+				price.usdPerMillionPromptTokens > 0 ||
+				price.usdPerMillionCompletionTokens > 0
+			);
+		},
+		/**
+		 * Whether paid providers should be skipped because this month's
+		 * budget is spent. When the budget is set to only warn, warns once a
+		 * month instead. Usage that can't be read never blocks anything.
+		 */
+		isPaidUsageBlocked: async () => {
+			const budgetUsd = settings.value['usage.monthlyBudgetUsd'];
+			if (budgetUsd === null) return false;
+			const spendResult = await getMonthSpendUsd();
+			if (!spendResult.ok) {
+				notificationLog.addLog({ ...spendResult.error, variant: 'warning' });
+				return false;
+			}
+			if (spendResult.data < budgetUsd) return false;
+			if (settings.value['usage.budgetAction'] === 'block') return true;
+
+			const month = getStartOfMonth();
+			if (lastWarnedMonth !== month) {
+				lastWarnedMonth = month;
+				toast.warning({
+					title: '💸 Monthly budget reached',
+					description: `You've spent $${spendResult.data.toFixed(2)} of your $${budgetUsd.toFixed(2)} budget this month.`,
+					action: {
+						type: 'link',
+						label: 'Open usage',
+						goto: '/settings/usage',
+					},
+				});
+			}
+			return false;
+		},
+	};
+}
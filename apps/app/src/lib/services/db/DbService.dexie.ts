@@ -0,0 +1,138 @@
+import { Ok, tryAsync } from '@epicenterhq/result';
+import { WhisperingErr } from '@repo/shared';
+import Dexie, { type EntityTable } from 'dexie';
+import type { DbService, Recording, UsageRecord } from './DbService';
+
+const DB_NAME = 'WhisperingXDB';
+
+class WhisperingXDatabase extends Dexie {
+	recordings!: EntityTable<Recording, 'id'>;
+	usage!: EntityTable<UsageRecord, 'id'>;
+
+	constructor() {
+		super(DB_NAME);
+		this.version(1).stores({
+			recordings: '&id, createdAt, transcriptionStatus',
+		});
+		this.version(2).stores({
+			recordings: '&id, createdAt, transcriptionStatus',
+			usage: '&id, createdAt',
+		});
+	}
+}
+
+export function createDbDexieService(): DbService {
+	const db = new WhisperingXDatabase();
+
+	return {
+		getAllRecordings: () =>
+			tryAsync({
+				try: () => db.recordings.orderBy('createdAt').reverse().toArray(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '📂 Unable to Load History',
+						description:
+							'There was an error reading your recordings from the local database. Please try again.',
+						action: { type: 'more-details', error },
+					}),
+			}),
+
+		getRecordingById: (id) =>
+			tryAsync({
+				try: async () => (await db.recordings.get(id)) ?? null,
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '📂 Unable to Load Recording',
+						description:
+							'There was an error reading this recording from the local database. Please try again.',
+						action: { type: 'more-details', error },
+					}),
+			}),
+
+		getRecordingsByTranscriptionStatus: (status) =>
+			tryAsync({
+				try: () =>
+					db.recordings.where('transcriptionStatus').equals(status).toArray(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '📂 Unable to Load Recordings',
+						description:
+							'There was an error reading your recordings from the local database. Please try again.',
+						action: { type: 'more-details', error },
+					}),
+			}),
+
+		createRecording: async (recording) => {
+			const addResult = await tryAsync({
+				try: () => db.recordings.add(recording),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '💾 Unable to Save Recording',
+						description:
+							'Your recording could not be saved to history. The transcription will continue as usual.',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!addResult.ok) return addResult;
+			return Ok(recording);
+		},
+
+		updateRecording: async (recording) => {
+			const updatedRecording = {
+				...recording,
+				updatedAt: new Date().toISOString(),
+			} satisfies Recording;
+			const putResult = await tryAsync({
+				try: () => db.recordings.put(updatedRecording),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '💾 Unable to Update Recording',
+						description:
+							'There was an error updating this recording in history. Please try again.',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!putResult.ok) return putResult;
+			return Ok(updatedRecording);
+		},
+
+		deleteRecordingById: (id) =>
+			tryAsync({
+				try: () => db.recordings.delete(id),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '🗑️ Unable to Delete Recording',
+						description:
+							'There was an error deleting this recording from history. Please try again.',
+						action: { type: 'more-details', error },
+					}),
+			}),
+
+		getUsageRecordsSince: (isoDate) =>
+			tryAsync({
+				try: () => db.usage.where('createdAt').aboveOrEqual(isoDate).toArray(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '📊 Unable to Load Usage',
+						description:
+							'There was an error reading your usage from the local database. Please try again.',
+						action: { type: 'more-details', error },
+					}),
+			}),
+
+		addUsageRecord: async (usageRecord) => {
+			const addResult = await tryAsync({
+				try: () => db.usage.add(usageRecord),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '📊 Unable to Save Usage',
+						description:
+							'The usage of this request could not be saved, so it is missing from your usage and budget.',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!addResult.ok) return addResult;
+			return Ok(usageRecord);
+		},
+	};
+}
@@ -0,0 +1,102 @@
+import type {
+	INFERENCE_PROVIDERS,
+	TRANSCRIPTION_SERVICES,
+	WhisperingResult,
+} from '@repo/shared';
+import type {
+	LanguageType,
+	TranscriptSegment,
+	TranscriptionTask,
+} from '../transcription/TranscriptionService';
+
+export type RecordingTranscriptionStatus =
+	| 'TRANSCRIBING'
+	| 'DONE'
+	| 'FAILED'
+	/** No speech was detected, so the recording was never sent. */
+	| 'SKIPPED'
+	/** Transcription failed with a temporary error and will be retried. */
+	| 'QUEUED'
+	/** Transcription or post-processing was canceled before it finished. */
+	| 'CANCELED';
+
+/**
+ * A single recording run, saved locally so the audio and its transcript
+ * survive a failed paste or a bad post-processing step.
+ */
+export type Recording = {
+	id: string;
+	blob: Blob | undefined;
+	transcribedText: string;
+	/**
+	 * Timed parts of `transcribedText`, for exporting captions. Only set when
+	 * timestamps were enabled and the provider returned them.
+	 */
+	segments?: TranscriptSegment[];
+	/** `null` when post-processing is disabled or did not succeed. */
+	transformedText: string | null;
+	transcriptionService: (typeof TRANSCRIPTION_SERVICES)[number];
+	transcriptionModel: string;
+	language: LanguageType;
+	/** Missing on recordings from before translation, which were transcribed. */
+	task?: TranscriptionTask;
+	durationMs: number;
+	transcriptionStatus: RecordingTranscriptionStatus;
+	/** Set while the recording is in the retry queue or being retried. */
+	retry?: {
+		attempts: number;
+		/** ISO timestamp of when the next automatic attempt is due. */
+		nextAttemptAt: string;
+		lastErrorTitle: string;
+	};
+	/** ISO timestamp of when the recording was saved. */
+	createdAt: string;
+	/** ISO timestamp of the last change to the record. */
+	updatedAt: string;
+};
+
+/**
+ * What one successful request used, for the usage page and the monthly
+ * budget. Costs aren't stored, so editing a price reprices past usage.
+ */
+export type UsageRecord = {
+	id: string;
+	/** ISO timestamp of when the request finished. */
+	createdAt: string;
+} & (
+	| {
+			kind: 'transcription';
+			service: (typeof TRANSCRIPTION_SERVICES)[number];
+			model: string;
+			audioSeconds: number;
+	  }
+	| {
+			kind: 'inference';
+			provider: (typeof INFERENCE_PROVIDERS)[number];
+			model: string;
+			promptTokens: number;
+			completionTokens: number;
+	  }
+);
+
+export type DbService = {
+	getAllRecordings: () => Promise<WhisperingResult<Recording[]>>;
+	getRecordingById: (id: string) => Promise<WhisperingResult<Recording | null>>;
+	getRecordingsByTranscriptionStatus: (
+		status: RecordingTranscriptionStatus,
+	) => Promise<WhisperingResult<Recording[]>>;
+	createRecording: (
+		recording: Recording,
+	) => Promise<WhisperingResult<Recording>>;
+	updateRecording: (
+		recording: Recording,
+	) => Promise<WhisperingResult<Recording>>;
+	deleteRecordingById: (id: string) => Promise<WhisperingResult<void>>;
+	/** Oldest first. */
+	getUsageRecordsSince: (
+		isoDate: string,
+	) => Promise<WhisperingResult<UsageRecord[]>>;
+	addUsageRecord: (
+		usageRecord: UsageRecord,
+	) => Promise<WhisperingResult<UsageRecord>>;
+};
@@ -1,20 +1,51 @@
 import { getErrorMessage } from '$lib/utils';
 import { tryAsync } from '@epicenterhq/result';
 import { fetch } from '@tauri-apps/plugin-http';
-import type { HttpService } from './HttpService';
+import type { z } from 'zod';
+import type { HttpRequestOptions, HttpService } from './HttpService';
 import { HttpServiceErr } from './HttpService';
 
+/** Error bodies aren't always JSON, like a proxy's HTML error page. */
+const readErrorBody = async (response: Response) => {
+	const text = await response.text().catch(() => '');
+	try {
+		return getErrorMessage(JSON.parse(text));
+	} catch {
+		return text || response.statusText;
+	}
+};
+
 export function createHttpServiceDesktop(): HttpService {
-	return {
-		async post({ body, url, schema, headers }) {
+	const request = async <TSchema extends z.ZodTypeAny>(
+		url: string,
+		init: RequestInit,
+		schema: TSchema,
+		{ signal, timeoutMs }: HttpRequestOptions,
+	) => {
+		// AbortSignal.any and AbortSignal.timeout are missing on older WebKit
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		if (signal?.aborted) abort();
+		signal?.addEventListener('abort', abort, { once: true });
+		let timedOut = false;
+		const timeout =
+			timeoutMs === undefined
+				? undefined
+				: setTimeout(() => {
+						timedOut = true;
+						abort();
+					}, timeoutMs);
+		const mapAbortErr = (error: unknown) => {
+			if (signal?.aborted) return HttpServiceErr({ code: 'Aborted', error });
+			if (timedOut) return HttpServiceErr({ code: 'Timeout', error });
+			return null;
+		};
+
+		try {
 			const responseResult = await tryAsync({
-				try: () =>
-					fetch(url, {
-						method: 'POST',
-						body,
-						headers: headers,
-					}),
-				mapErr: (error) => HttpServiceErr({ code: 'NetworkError', error }),
+				try: () => fetch(url, { ...init, signal: controller.signal }),
+				mapErr: (error) =>
+					mapAbortErr(error) ?? HttpServiceErr({ code: 'NetworkError', error }),
 			});
 			if (!responseResult.ok) return responseResult;
 
@@ -23,17 +54,28 @@ export function createHttpServiceDesktop(): HttpService {
 				return HttpServiceErr({
 					code: 'HttpError',
 					status: response.status,
-					error: getErrorMessage(await response.json()),
+					error: await readErrorBody(response),
 				});
 			}
 			const parseResult = await tryAsync({
 				try: async () => {
 					const json = await response.json();
-					return schema.parse(json);
+					return schema.parse(json) as z.infer<TSchema>;
 				},
-				mapErr: (error) => HttpServiceErr({ code: 'ParseError', error }),
+				mapErr: (error) =>
+					mapAbortErr(error) ?? HttpServiceErr({ code: 'ParseError', error }),
 			});
 			return parseResult;
-		},
+		} finally {
+			clearTimeout(timeout);
+			signal?.removeEventListener('abort', abort);
+		}
+	};
+
+	return {
+		post: ({ body, url, schema, headers, ...options }) =>
+			request(url, { method: 'POST', body, headers }, schema, options),
+		get: ({ url, schema, headers, ...options }) =>
+			request(url, { method: 'GET', headers }, schema, options),
 	};
 }
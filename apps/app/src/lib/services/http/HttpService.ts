@@ -5,7 +5,10 @@ import type { z } from 'zod';
 type HttpServiceErrCodes =
 	| { code: 'NetworkError'; error: unknown }
 	| { code: 'HttpError'; error: unknown; status: number }
-	| { code: 'ParseError'; error: unknown };
+	| { code: 'ParseError'; error: unknown }
+	/** The caller's `signal` was aborted. */
+	| { code: 'Aborted'; error: unknown }
+	| { code: 'Timeout'; error: unknown };
 
 type HttpServiceErrProperties = {
 	_tag: 'HttpServiceErr';
@@ -25,11 +28,27 @@ export const HttpServiceErr = (
 		...args,
 	});
 
+export type HttpRequestOptions = {
+	/** Aborts the request, which then fails with an `Aborted` error. */
+	signal?: AbortSignal;
+	/** Fails the request with a `Timeout` error if it takes longer. */
+	timeoutMs?: number;
+};
+
 export type HttpService = {
-	post: <TSchema extends z.ZodTypeAny>(config: {
-		url: string;
-		body: BodyInit | FormData;
-		schema: TSchema;
-		headers?: Record<string, string>;
-	}) => Promise<HttpServiceResult<z.infer<TSchema>>>;
+	post: <TSchema extends z.ZodTypeAny>(
+		config: {
+			url: string;
+			body: BodyInit | FormData;
+			schema: TSchema;
+			headers?: Record<string, string>;
+		} & HttpRequestOptions,
+	) => Promise<HttpServiceResult<z.infer<TSchema>>>;
+	get: <TSchema extends z.ZodTypeAny>(
+		config: {
+			url: string;
+			schema: TSchema;
+			headers?: Record<string, string>;
+		} & HttpRequestOptions,
+	) => Promise<HttpServiceResult<z.infer<TSchema>>>;
 };
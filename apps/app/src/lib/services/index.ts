@@ -1,6 +1,10 @@
 import type { Accessor } from '$lib/query/types';
 import type { Result } from '@epicenterhq/result';
-import type { MaybePromise, WhisperingSoundNames } from '@repo/shared';
+import type {
+	MaybePromise,
+	TRANSCRIPTION_SERVICES,
+	WhisperingSoundNames,
+} from '@repo/shared';
 import {
 	type CreateMutationOptions,
 	type CreateQueryOptions,
@@ -10,16 +14,25 @@ import {
 	createQuery,
 } from '@tanstack/svelte-query';
 import { settings } from '../stores/settings.svelte';
+import { createConnectionTestService } from './ConnectionTestService';
 import { createSetTrayIconDesktopService } from './SetTrayIconService';
+import { createUsageService } from './UsageService';
 import { createClipboardServiceDesktop } from './clipboard/ClipboardService.desktop';
+import { createDbDexieService } from './db/DbService.dexie';
 import { createHttpServiceDesktop } from './http/HttpService.desktop';
-// import { createRecorderServiceTauri } from './recorder/RecorderService.tauri';
+import { createAudioPreprocessingServiceWeb } from './preprocessing/AudioPreprocessingService.web';
+import { createRecorderServiceTauri } from './recorder/RecorderService.tauri';
 import { createRecorderServiceWeb } from './recorder/RecorderService.web';
 import { createRunTransformationService } from './runTransformation';
 import { createPlaySoundServiceDesktop } from './sound/PlaySoundService.desktop';
+import { createAssemblyAiTranscriptionService } from './transcription/TranscriptionService.assemblyai';
+import { createCustomTranscriptionService } from './transcription/TranscriptionService.custom';
+import { createDeepgramTranscriptionService } from './transcription/TranscriptionService.deepgram';
 import { createFasterWhisperServerTranscriptionService } from './transcription/TranscriptionService.fasterWhisperServer';
 import { createGroqTranscriptionService } from './transcription/TranscriptionService.groq';
 import { createOpenaiTranscriptionService } from './transcription/TranscriptionService.openai';
+import { createVadServiceWeb } from './vad/VadService.web';
+import type { TranscriptionService } from './transcription/TranscriptionService';
 
 type QueryResultFunction<TData, TError> = () => MaybePromise<
 	Result<TData, TError>
@@ -88,58 +101,145 @@ export const ClipboardService = createClipboardServiceDesktop();
 
 export const SetTrayIconService = createSetTrayIconDesktopService();
 
+export const DbService = createDbDexieService();
+
+export const VadService = createVadServiceWeb();
+
+export const AudioPreprocessingService = createAudioPreprocessingServiceWeb();
+
 const HttpService = createHttpServiceDesktop();
 
 const PlaySoundService = createPlaySoundServiceDesktop();
 
+export const UsageService = createUsageService({ DbService });
+
+export const ConnectionTestService = createConnectionTestService({
+	HttpService,
+});
+
 export const RunTransformationService = createRunTransformationService({
 	HttpService,
+	UsageService,
 });
 
+type TranscriptionServiceName = (typeof TRANSCRIPTION_SERVICES)[number];
+
 /**
  * Services that are determined by the user's settings.
  */
 export const userConfiguredServices = (() => {
-	// const RecorderServiceTauri = createRecorderServiceTauri();
+	const RecorderServiceTauri = createRecorderServiceTauri();
 	const RecorderServiceWeb = createRecorderServiceWeb();
 
+	const getSelectedCustomEndpoint = () =>
+		settings.value['transcription.custom.endpoints'].find(
+			(endpoint) =>
+				endpoint.id ===
+				settings.value['transcription.custom.selectedEndpointId'],
+		);
+
+	const createTranscriptionService = (
+		service: TranscriptionServiceName,
+	): TranscriptionService => {
+		switch (service) {
+			case 'OpenAI': {
+				return createOpenaiTranscriptionService({
+					HttpService,
+					apiKey: settings.value['apiKeys.openai'],
+				});
+			}
+			case 'Groq': {
+				return createGroqTranscriptionService({
+					HttpService,
+					apiKey: settings.value['apiKeys.groq'],
+					modelName: settings.value['transcription.groq.model'],
+				});
+			}
+			case 'faster-whisper-server': {
+				return createFasterWhisperServerTranscriptionService({
+					HttpService,
+					serverModel:
+						settings.value['transcription.fasterWhisperServer.serverModel'],
+					serverUrl:
+						settings.value['transcription.fasterWhisperServer.serverUrl'],
+				});
+			}
+			case 'Custom': {
+				return createCustomTranscriptionService({
+					HttpService,
+					endpoint: getSelectedCustomEndpoint(),
+				});
+			}
+			case 'Deepgram': {
+				return createDeepgramTranscriptionService({
+					HttpService,
+					apiKey: settings.value['apiKeys.deepgram'],
+					model: settings.value['transcription.deepgram.model'],
+				});
+			}
+			case 'AssemblyAI': {
+				return createAssemblyAiTranscriptionService({
+					HttpService,
+					apiKey: settings.value['apiKeys.assemblyai'],
+					speechModel: settings.value['transcription.assemblyai.speechModel'],
+				});
+			}
+			default: {
+				return createOpenaiTranscriptionService({
+					HttpService,
+					apiKey: settings.value['apiKeys.openai'],
+				});
+			}
+		}
+	};
+
+	const getTranscriptionModel = (service: TranscriptionServiceName) => {
+		switch (service) {
+			case 'Groq':
+				return settings.value['transcription.groq.model'];
+			case 'faster-whisper-server':
+				return settings.value['transcription.fasterWhisperServer.serverModel'];
+			case 'Custom':
+				return getSelectedCustomEndpoint()?.model ?? '';
+			case 'Deepgram':
+				return settings.value['transcription.deepgram.model'];
+			case 'AssemblyAI':
+				return settings.value['transcription.assemblyai.speechModel'];
+			default:
+				return 'whisper-1';
+		}
+	};
+
 	return {
 		get transcription() {
-			switch (settings.value['transcription.selectedTranscriptionService']) {
-				case 'OpenAI': {
-					return createOpenaiTranscriptionService({
-						HttpService,
-						apiKey: settings.value['apiKeys.openai'],
-					});
-				}
-				case 'Groq': {
-					return createGroqTranscriptionService({
-						HttpService,
-						apiKey: settings.value['apiKeys.groq'],
-						modelName: settings.value['transcription.groq.model'],
-					});
-				}
-				case 'faster-whisper-server': {
-					return createFasterWhisperServerTranscriptionService({
-						HttpService,
-						serverModel:
-							settings.value['transcription.fasterWhisperServer.serverModel'],
-						serverUrl:
-							settings.value['transcription.fasterWhisperServer.serverUrl'],
-					});
-				}
-				default: {
-					return createOpenaiTranscriptionService({
-						HttpService,
-						apiKey: settings.value['apiKeys.openai'],
-					});
-				}
-			}
+			return createTranscriptionService(
+				settings.value['transcription.selectedTranscriptionService'],
+			);
+		},
+		get transcriptionModel() {
+			return getTranscriptionModel(
+				settings.value['transcription.selectedTranscriptionService'],
+			);
+		},
+		/**
+		 * The selected service followed by the fallbacks, in the order they
+		 * should be tried when a provider is down or rate limited.
+		 */
+		get transcriptionFallbackChain() {
+			const services = new Set([
+				settings.value['transcription.selectedTranscriptionService'],
+				...settings.value['transcription.fallbackServices'],
+			]);
+			return [...services].map((service) => ({
+				service,
+				model: getTranscriptionModel(service),
+				transcription: createTranscriptionService(service),
+			}));
 		},
 		get recorder() {
-			// if (settings.value['recorder.selectedRecorderService'] === 'Tauri') {
-			// 	return RecorderServiceTauri;
-			// }
+			if (settings.value['recording.backend'] === 'native') {
+				return RecorderServiceTauri;
+			}
 			return RecorderServiceWeb;
 		},
 	};
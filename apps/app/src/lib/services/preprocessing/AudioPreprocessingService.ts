@@ -0,0 +1,37 @@
+import type { Settings, WhisperingResult } from '@repo/shared';
+
+export type UploadFormat = Settings['recording.uploadFormat'];
+
+export type SilenceDetectionOptions = {
+	/** Frames quieter than this (in dBFS) count as silence. */
+	thresholdDb: number;
+	/** Recordings with less speech than this are not transcribed. */
+	minSpeechMs: number;
+};
+
+export type PreprocessedAudio =
+	| {
+			hasSpeech: true;
+			blob: Blob;
+			/** Seconds of leading silence trimmed off, to shift timestamps back. */
+			trimmedStartS: number;
+			/** Length of `blob`, when it was decoded to find out. */
+			durationS: number | null;
+	  }
+	| { hasSpeech: false; speechDurationMs: number };
+
+export type AudioPreprocessingService = {
+	/**
+	 * Decodes a recording, downmixes it to mono, resamples it to 16kHz and
+	 * re-encodes it, so every provider receives the same small input. With
+	 * silence detection, leading and trailing silence is trimmed and
+	 * recordings without enough speech are reported instead of encoded.
+	 */
+	preprocessAudio: (
+		blob: Blob,
+		options: {
+			format: UploadFormat;
+			silenceDetection: SilenceDetectionOptions | null;
+		},
+	) => Promise<WhisperingResult<PreprocessedAudio>>;
+};
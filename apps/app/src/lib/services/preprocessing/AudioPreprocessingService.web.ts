@@ -0,0 +1,79 @@
+import {
+	WHISPER_SAMPLE_RATE,
+	decodeAudioBlob,
+	encodeWav,
+	findSpeech,
+} from '$lib/utils/audio';
+import { encodeOpus, isOpusEncodingSupported } from '$lib/utils/opus';
+import { Ok, tryAsync } from '@epicenterhq/result';
+import { WhisperingErr } from '@repo/shared';
+import type {
+	AudioPreprocessingService,
+	PreprocessedAudio,
+} from './AudioPreprocessingService';
+
+export function createAudioPreprocessingServiceWeb(): AudioPreprocessingService {
+	return {
+		preprocessAudio: async (blob, { format, silenceDetection }) => {
+			if (format === 'original' && !silenceDetection) {
+				return Ok({
+					hasSpeech: true,
+					blob,
+					trimmedStartS: 0,
+					durationS: null,
+				});
+			}
+			return tryAsync({
+				try: async (): Promise<PreprocessedAudio> => {
+					const decodedSamples = await decodeAudioBlob(blob);
+					let samples = decodedSamples;
+					let trimmedStartS = 0;
+
+					if (silenceDetection) {
+						const { start, end, speechDurationMs } = findSpeech(samples, {
+							thresholdDb: silenceDetection.thresholdDb,
+						});
+						if (speechDurationMs < silenceDetection.minSpeechMs) {
+							return { hasSpeech: false, speechDurationMs };
+						}
+						samples = samples.subarray(start, end);
+						trimmedStartS = start / WHISPER_SAMPLE_RATE;
+					}
+
+					// Trimming needs a re-encode, so the original is sent untrimmed
+					if (format === 'original') {
+						return {
+							hasSpeech: true,
+							blob,
+							trimmedStartS: 0,
+							durationS: decodedSamples.length / WHISPER_SAMPLE_RATE,
+						};
+					}
+					const durationS = samples.length / WHISPER_SAMPLE_RATE;
+					// WebCodecs is missing from some webviews, and WAV always works
+					if (format === 'opus' && (await isOpusEncodingSupported())) {
+						return {
+							hasSpeech: true,
+							blob: await encodeOpus(samples),
+							trimmedStartS,
+							durationS,
+						};
+					}
+					return {
+						hasSpeech: true,
+						blob: encodeWav(samples),
+						trimmedStartS,
+						durationS,
+					};
+				},
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '🎛️ Unable to Process Audio',
+						description:
+							'There was an error converting your recording before upload.',
+						action: { type: 'more-details', error },
+					}),
+			});
+		},
+	};
+}
@@ -17,21 +17,9 @@ export function createRecorderServiceTauri(): RecorderService {
 				});
 			return Ok(result.data);
 		},
-		enumerateRecordingDevices: async () => {
-			const invokeResult = await invoke<{ deviceId: string; label: string }[]>(
-				'enumerate_recording_devices',
-			);
-			if (!invokeResult.ok) {
-				return WhisperingErr({
-					title: '🎤 Device Access Error',
-					description:
-						'Oops! We need permission to see your microphones. Check your browser settings and try again!',
-					action: { type: 'more-details', error: invokeResult.error },
-				});
-			}
-			const deviceInfos = invokeResult.data;
-			return Ok(deviceInfos);
-		},
+		enumerateRecordingDevices,
+		// cpal records the raw input without browser processing
+		getAppliedAudioProcessing: () => Ok(null),
 		ensureRecordingSession: async (
 			settings,
 			{ sendStatus: sendUpdateStatus },
@@ -41,9 +29,16 @@ export function createRecorderServiceTauri(): RecorderService {
 				description:
 					'Initializing your recording session and checking microphone access...',
 			});
-			const result = await invoke('init_recording_session', {
-				deviceName: settings.deviceId,
-			});
+			// The native recorder takes one device, so pick the first connected one
+			const devicesResult = await enumerateRecordingDevices();
+			const availableDeviceNames = devicesResult.ok
+				? devicesResult.data.map((device) => device.deviceId)
+				: [];
+			const deviceName =
+				settings.preferredDeviceIds.find((deviceId) =>
+					availableDeviceNames.includes(deviceId),
+				) ?? null;
+			const result = await invoke('init_recording_session', { deviceName });
 			if (!result.ok)
 				return WhisperingErr({
 					title: '🎤 Unable to Start Recording Session',
@@ -86,13 +81,45 @@ export function createRecorderServiceTauri(): RecorderService {
 				});
 			return Ok(undefined);
 		},
+		pauseRecording: async ({ sendStatus: sendUpdateStatus }) => {
+			sendUpdateStatus({
+				title: '⏸️ Pausing',
+				description: 'Pausing your recording...',
+			});
+			const result = await invoke<void>('pause_recording');
+			if (!result.ok)
+				return WhisperingErr({
+					title: '⏸️ Pause Failed',
+					description: 'Unable to pause your recording. Please try again.',
+					action: { type: 'more-details', error: result.error },
+				});
+			return Ok(undefined);
+		},
+		resumeRecording: async ({ sendStatus: sendUpdateStatus }) => {
+			sendUpdateStatus({
+				title: '▶️ Resuming',
+				description: 'Picking up your recording where you left off...',
+			});
+			const result = await invoke<void>('resume_recording');
+			if (!result.ok)
+				return WhisperingErr({
+					title: '▶️ Resume Failed',
+					description: 'Unable to resume your recording. Please try again.',
+					action: { type: 'more-details', error: result.error },
+				});
+			return Ok(undefined);
+		},
 		stopRecording: async ({ sendStatus: sendUpdateStatus }) => {
 			sendUpdateStatus({
 				title: '⏸️ Finishing Up',
 				description:
 					'Saving your recording and preparing the final audio file...',
 			});
-			const result = await invoke<number[]>('stop_recording');
+			const result = await invoke<{
+				samples: number[];
+				sampleRate: number;
+				channels: number;
+			}>('stop_recording');
 			if (!result.ok)
 				return WhisperingErr({
 					title: '⏹️ Recording Stop Failed',
@@ -100,8 +127,11 @@ export function createRecorderServiceTauri(): RecorderService {
 					action: { type: 'more-details', error: result.error },
 				});
 
-			const float32Array = new Float32Array(result.data);
-			const blob = createWavFromFloat32(float32Array);
+			const { samples, sampleRate, channels } = result.data;
+			const blob = createWavFromFloat32(new Float32Array(samples), {
+				sampleRate,
+				numChannels: channels,
+			});
 			return Ok(blob);
 		},
 		cancelRecording: async ({ sendStatus: sendUpdateStatus }) => {
@@ -123,6 +153,22 @@ export function createRecorderServiceTauri(): RecorderService {
 	};
 }
 
+async function enumerateRecordingDevices() {
+	const invokeResult = await invoke<{ deviceId: string; label: string }[]>(
+		'enumerate_recording_devices',
+	);
+	if (!invokeResult.ok) {
+		return WhisperingErr({
+			title: '🎤 Device Access Error',
+			description:
+				'Oops! We need permission to see your microphones. Check your browser settings and try again!',
+			action: { type: 'more-details', error: invokeResult.error },
+		});
+	}
+	const deviceInfos = invokeResult.data;
+	return Ok(deviceInfos);
+}
+
 async function invoke<T>(command: string, args?: Record<string, unknown>) {
 	return tryAsync({
 		try: async () => await tauriInvoke<T>(command, args),
@@ -131,9 +177,12 @@ async function invoke<T>(command: string, args?: Record<string, unknown>) {
 	});
 }
 
-function createWavFromFloat32(float32Array: Float32Array, sampleRate = 96000) {
+/** Wraps interleaved samples from the native recorder in a 32-bit float WAV. */
+function createWavFromFloat32(
+	float32Array: Float32Array,
+	{ sampleRate, numChannels }: { sampleRate: number; numChannels: number },
+) {
 	// WAV header parameters
-	const numChannels = 1; // Mono
 	const bitsPerSample = 32;
 	const bytesPerSample = bitsPerSample / 8;
 
@@ -9,9 +9,43 @@ export type UpdateStatusMessageFn = (args: {
 	description: string;
 }) => void;
 
+/**
+ * Receives the microphone input level while recording, normalized to `0`
+ * (silence) through `1` (full scale).
+ */
+export type InputLevelFn = (level: number) => void;
+
+export type RecordingSamplesFn = (
+	samples: Float32Array,
+	sampleRate: number,
+) => void;
+
+/** Browser audio processing, requested as `getUserMedia` constraints. */
+export type AudioProcessingSettings = {
+	echoCancellation: boolean;
+	noiseSuppression: boolean;
+	autoGainControl: boolean;
+};
+
 export type RecordingSessionSettings = {
-	deviceId: string | null;
+	/**
+	 * Device ids in order of preference. The first one that's connected is
+	 * used, and any available microphone if none are.
+	 */
+	preferredDeviceIds: string[];
 	bitsPerSecond: number;
+	/**
+	 * What `MediaRecorder` should record as, or `null` for the platform
+	 * default. Ignored if the platform can't record it.
+	 */
+	mimeType: string | null;
+	audioProcessing: AudioProcessingSettings;
+	/**
+	 * How much audio from before `startRecording` to include, kept in a
+	 * rolling buffer while the session is open. `0` disables it. Only Opus
+	 * recordings get it, so the platform default prefers Opus while it's on.
+	 */
+	preRollMs: number;
 };
 
 export type RecorderService = {
@@ -21,17 +55,50 @@ export type RecorderService = {
 	enumerateRecordingDevices: () => Promise<
 		WhisperingResult<Pick<MediaDeviceInfo, 'deviceId' | 'label'>[]>
 	>;
+	/**
+	 * The audio processing the browser actually applied in the current or
+	 * most recent session, which can differ from what was requested. `null`
+	 * before the first session or when the recorder can't tell. Settings the
+	 * microphone doesn't report are left out.
+	 */
+	getAppliedAudioProcessing: () => MaybePromise<
+		WhisperingResult<Partial<AudioProcessingSettings> | null>
+	>;
 	ensureRecordingSession: (
 		settings: RecordingSessionSettings,
-		callbacks: { sendStatus: UpdateStatusMessageFn },
+		callbacks: {
+			sendStatus: UpdateStatusMessageFn;
+			/**
+			 * Called when the session moves to another microphone on its own,
+			 * e.g. because the current one was unplugged. Only called by
+			 * recorders that watch for device changes.
+			 */
+			onDeviceChangeWarning?: UpdateStatusMessageFn;
+		},
 	) => Promise<WhisperingResult<void>>;
 	closeRecordingSession: (callbacks: {
 		sendStatus: UpdateStatusMessageFn;
 	}) => Promise<WhisperingResult<void>>;
 	startRecording: (
 		recordingId: string,
-		callbacks: { sendStatus: UpdateStatusMessageFn },
+		callbacks: {
+			sendStatus: UpdateStatusMessageFn;
+			/** Only called by recorders that can meter their input. */
+			onInputLevel?: InputLevelFn;
+			/**
+			 * Receives the recording as mono samples while it's recorded, one
+			 * block at a time. Only called by recorders that can tap their
+			 * input.
+			 */
+			onRecordingSamples?: RecordingSamplesFn;
+		},
 	) => Promise<WhisperingResult<void>>;
+	pauseRecording: (callbacks: {
+		sendStatus: UpdateStatusMessageFn;
+	}) => Promise<WhisperingResult<void>>;
+	resumeRecording: (callbacks: {
+		sendStatus: UpdateStatusMessageFn;
+	}) => Promise<WhisperingResult<void>>;
 	stopRecording: (callbacks: {
 		sendStatus: UpdateStatusMessageFn;
 	}) => Promise<WhisperingResult<Blob>>;
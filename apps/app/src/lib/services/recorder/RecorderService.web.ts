@@ -1,12 +1,21 @@
-import { Ok, tryAsync } from '@epicenterhq/result';
+import { decodeAudioBlob, resampleAudio } from '$lib/utils/audio';
+import { encodeOpus, isOpusEncodingSupported } from '$lib/utils/opus';
+import { Ok, tryAsync, trySync } from '@epicenterhq/result';
 import { WhisperingErr, type WhisperingResult } from '@repo/shared';
 import type {
+	AudioProcessingSettings,
+	InputLevelFn,
 	RecorderService,
+	RecordingSamplesFn,
 	RecordingSessionSettings,
 	UpdateStatusMessageFn,
 } from './RecorderService';
+import { createPreRollBuffer, type PreRollBuffer } from './preRollBuffer';
 
 const TIMESLICE_MS = 1000;
+const INPUT_LEVEL_INTERVAL_MS = 50;
+/** Input below this many decibels is drawn as an empty meter. */
+const INPUT_LEVEL_FLOOR_DB = -60;
 // Whisper API recommends a mono channel at 16kHz
 const WHISPER_RECOMMENDED_MEDIA_TRACK_CONSTRAINTS = {
 	channelCount: { ideal: 1 },
@@ -16,27 +25,48 @@ const WHISPER_RECOMMENDED_MEDIA_TRACK_CONSTRAINTS = {
 type RecordingSession = {
 	settings: RecordingSessionSettings;
 	stream: MediaStream;
+	/**
+	 * The microphone is recorded through an audio graph instead of directly,
+	 * so it can be swapped for another one without stopping the recording.
+	 */
+	audioGraph: {
+		audioContext: AudioContext;
+		source: MediaStreamAudioSourceNode;
+		destination: MediaStreamAudioDestinationNode;
+	};
+	stopWatchingDevices: () => void;
+	/** Also taps the audio for `onRecordingSamples`, even without pre-roll. */
+	preRollBuffer: PreRollBuffer | null;
 	recorder: {
 		mediaRecorder: MediaRecorder;
 		recordedChunks: Blob[];
+		/** Audio from just before the recording started, to prepend on stop. */
+		preRoll: { samples: Float32Array; sampleRate: number } | null;
 		recordingId: string;
+		onInputLevel: InputLevelFn | undefined;
+		onRecordingSamples: RecordingSamplesFn | undefined;
+		stopInputLevelMeter: () => void;
 	} | null;
 };
 
 export function createRecorderServiceWeb(): RecorderService {
 	let maybeCurrentSession: RecordingSession | null = null;
+	let lastAppliedAudioProcessing: Partial<AudioProcessingSettings> | null =
+		null;
 
 	const acquireStream = async (
 		settings: RecordingSessionSettings,
 		{ sendStatus }: { sendStatus: UpdateStatusMessageFn },
 	): Promise<WhisperingResult<MediaStream>> => {
-		if (!settings.deviceId) {
+		if (settings.preferredDeviceIds.length === 0) {
 			sendStatus({
 				title: '🔍 No Device Selected',
 				description:
 					"No worries! We'll find the best microphone for you automatically...",
 			});
-			const getFirstStreamResult = await getFirstAvailableStream();
+			const getFirstStreamResult = await getFirstAvailableStream(
+				settings.audioProcessing,
+			);
 			if (!getFirstStreamResult.ok) {
 				return WhisperingErr({
 					title: '🚫 Stream Error',
@@ -48,62 +78,265 @@ export function createRecorderServiceWeb(): RecorderService {
 			const firstStream = getFirstStreamResult.data;
 			return Ok(firstStream);
 		}
-		const getPreferredStreamResult = await getStreamForDeviceId(
-			settings.deviceId,
+		for (const deviceId of settings.preferredDeviceIds) {
+			const getPreferredStreamResult = await getStreamForDeviceId(
+				deviceId,
+				settings.audioProcessing,
+			);
+			if (getPreferredStreamResult.ok) return getPreferredStreamResult;
+		}
+		sendStatus({
+			title: '⚠️ Finding a New Microphone',
+			description:
+				"None of your preferred microphones are working. Let's try finding another one...",
+		});
+		const getFirstStreamResult = await getFirstAvailableStream(
+			settings.audioProcessing,
 		);
-		if (!getPreferredStreamResult.ok) {
-			sendStatus({
-				title: '⚠️ Finding a New Microphone',
+		if (!getFirstStreamResult.ok) {
+			return WhisperingErr({
+				title: '🎤 No Microphone Found',
 				description:
-					"That microphone isn't working. Let's try finding another one...",
+					"We couldn't connect to any microphones. Make sure they're plugged in and try again!",
+				action: { type: 'more-details', error: getFirstStreamResult.error },
 			});
-			const getFirstStreamResult = await getFirstAvailableStream();
-			if (!getFirstStreamResult.ok) {
-				return WhisperingErr({
-					title: '🎤 No Microphone Found',
+		}
+		const firstStream = getFirstStreamResult.data;
+		return Ok(firstStream);
+	};
+
+	/** Points the session's audio graph at a new microphone stream. */
+	const replaceSessionStream = (
+		session: RecordingSession,
+		stream: MediaStream,
+	) => {
+		const { audioContext, destination } = session.audioGraph;
+		session.audioGraph.source.disconnect();
+		for (const track of session.stream.getTracks()) {
+			track.stop();
+		}
+		session.stream = stream;
+		lastAppliedAudioProcessing = getAppliedAudioProcessing(stream);
+		session.audioGraph.source = audioContext.createMediaStreamSource(stream);
+		session.audioGraph.source.connect(destination);
+		session.preRollBuffer?.connect(session.audioGraph.source);
+	};
+
+	/** Passes the session's audio on to the recording's `onRecordingSamples`. */
+	const startTappingSamples = (session: RecordingSession) => {
+		const { preRollBuffer, recorder } = session;
+		if (!preRollBuffer || !recorder?.onRecordingSamples) return;
+		const { onRecordingSamples } = recorder;
+		preRollBuffer.setOnBlock((block) =>
+			onRecordingSamples(block, preRollBuffer.sampleRate),
+		);
+	};
+
+	/**
+	 * Moves the session to the best available microphone whenever devices
+	 * are plugged in or out, or the current one stops delivering audio.
+	 */
+	const watchDevices = (
+		session: RecordingSession,
+		onDeviceChangeWarning: UpdateStatusMessageFn,
+	) => {
+		let pendingSwitch = Promise.resolve();
+
+		const switchToBestDevice = async () => {
+			if (maybeCurrentSession !== session) return;
+			const devicesResult = await tryAsync({
+				try: () => navigator.mediaDevices.enumerateDevices(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '🎤 Device Access Error',
+						description: 'Unable to list your microphones',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!devicesResult.ok) return;
+			const availableDeviceIds = new Set(
+				devicesResult.data
+					.filter((device) => device.kind === 'audioinput')
+					.map((device) => device.deviceId),
+			);
+			const currentTrack = session.stream.getAudioTracks().at(0);
+			const isCurrentTrackLive = currentTrack?.readyState === 'live';
+			const bestDeviceId = session.settings.preferredDeviceIds.find(
+				(deviceId) => availableDeviceIds.has(deviceId),
+			);
+			if (
+				isCurrentTrackLive &&
+				(!bestDeviceId || bestDeviceId === currentTrack?.getSettings().deviceId)
+			) {
+				return;
+			}
+
+			const acquireStreamResult = await acquireStream(session.settings, {
+				sendStatus: () => {},
+			});
+			if (maybeCurrentSession !== session) {
+				if (acquireStreamResult.ok) {
+					for (const track of acquireStreamResult.data.getTracks()) {
+						track.stop();
+					}
+				}
+				return;
+			}
+			if (!acquireStreamResult.ok) {
+				onDeviceChangeWarning({
+					title: '🎤 Microphone Disconnected',
 					description:
-						"We couldn't connect to any microphones. Make sure they're plugged in and try again!",
-					action: { type: 'more-details', error: getFirstStreamResult.error },
+						"Your microphone was disconnected and we couldn't find another one. Plug one in to keep recording.",
 				});
+				return;
 			}
-			const firstStream = getFirstStreamResult.data;
-			return Ok(firstStream);
+			const newStream = acquireStreamResult.data;
+			const newTrack = newStream.getAudioTracks().at(0);
+			const isSameDevice =
+				newTrack?.getSettings().deviceId ===
+				currentTrack?.getSettings().deviceId;
+			if (isCurrentTrackLive && isSameDevice) {
+				for (const track of newStream.getTracks()) {
+					track.stop();
+				}
+				return;
+			}
+			replaceSessionStream(session, newStream);
+			newTrack?.addEventListener('ended', onDeviceChange);
+			onDeviceChangeWarning({
+				title: '🎧 Switched Microphone',
+				description: `Now recording from ${newTrack?.label || 'another microphone'}.`,
+			});
+		};
+
+		// Device events can arrive in bursts, so switches run one at a time
+		const onDeviceChange = () => {
+			pendingSwitch = pendingSwitch.then(switchToBestDevice);
+		};
+
+		navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
+		for (const track of session.stream.getAudioTracks()) {
+			track.addEventListener('ended', onDeviceChange);
 		}
-		const preferredStream = getPreferredStreamResult.data;
-		return Ok(preferredStream);
+		return () => {
+			navigator.mediaDevices.removeEventListener(
+				'devicechange',
+				onDeviceChange,
+			);
+		};
 	};
 
 	return {
 		getRecorderState: () => {
 			if (!maybeCurrentSession) return Ok('IDLE');
+			if (maybeCurrentSession.recorder?.mediaRecorder.state === 'paused') {
+				return Ok('SESSION+PAUSED');
+			}
 			if (maybeCurrentSession.recorder) return Ok('SESSION+RECORDING');
 			return Ok('SESSION');
 		},
 		enumerateRecordingDevices,
+		getAppliedAudioProcessing: () => Ok(lastAppliedAudioProcessing),
 
-		ensureRecordingSession: async (settings, { sendStatus }) => {
+		ensureRecordingSession: async (
+			settings,
+			{ sendStatus, onDeviceChangeWarning },
+		) => {
 			if (maybeCurrentSession) return Ok(undefined);
 			const acquireStreamResult = await acquireStream(settings, {
 				sendStatus,
 			});
 			if (!acquireStreamResult.ok) return acquireStreamResult;
 			const stream = acquireStreamResult.data;
-			maybeCurrentSession = { settings, stream, recorder: null };
+			lastAppliedAudioProcessing = getAppliedAudioProcessing(stream);
+			const audioGraphResult = await tryAsync({
+				try: async () => {
+					const audioContext = new AudioContext();
+					await audioContext.resume();
+					const source = audioContext.createMediaStreamSource(stream);
+					const destination = audioContext.createMediaStreamDestination();
+					destination.channelCount = 1;
+					source.connect(destination);
+					return { audioContext, source, destination };
+				},
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '🎙️ Setup Failed',
+						description:
+							"Oops! Something went wrong with your microphone. Let's try that again!",
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!audioGraphResult.ok) {
+				for (const track of stream.getTracks()) {
+					track.stop();
+				}
+				return audioGraphResult;
+			}
+			const audioGraph = audioGraphResult.data;
+			const preRollBufferResult = await tryAsync({
+				try: async () => {
+					const preRollBuffer = await createPreRollBuffer(
+						audioGraph.audioContext,
+						{
+							durationMs: settings.preRollMs,
+							output: audioGraph.destination,
+						},
+					);
+					preRollBuffer.connect(audioGraph.source);
+					return preRollBuffer;
+				},
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '⚠️ Pre-roll Unavailable',
+						description: "We couldn't buffer audio ahead of your recordings.",
+						action: { type: 'more-details', error },
+					}),
+			});
+			// Recording still works without pre-roll, it just starts later
+			if (!preRollBufferResult.ok && settings.preRollMs > 0) {
+				sendStatus({
+					title: '⚠️ Pre-roll Unavailable',
+					description:
+						"We couldn't buffer audio ahead of your recordings, so they'll start when you press the shortcut.",
+				});
+			}
+			const session: RecordingSession = {
+				settings,
+				stream,
+				audioGraph,
+				stopWatchingDevices: () => {},
+				preRollBuffer: preRollBufferResult.ok ? preRollBufferResult.data : null,
+				recorder: null,
+			};
+			maybeCurrentSession = session;
+			session.stopWatchingDevices = watchDevices(
+				session,
+				onDeviceChangeWarning ?? (() => {}),
+			);
 			return Ok(undefined);
 		},
 
 		closeRecordingSession: async () => {
 			if (!maybeCurrentSession) return Ok(undefined);
 			const currentSession = maybeCurrentSession;
+			currentSession.stopWatchingDevices();
+			currentSession.recorder?.stopInputLevelMeter();
 			for (const track of currentSession.stream.getTracks()) {
 				track.stop();
 			}
+			currentSession.preRollBuffer?.close();
+			currentSession.audioGraph.source.disconnect();
+			void currentSession.audioGraph.audioContext.close();
 			maybeCurrentSession.recorder = null;
 			maybeCurrentSession = null;
 			return Ok(undefined);
 		},
 
-		startRecording: async (recordingId, { sendStatus }) => {
+		startRecording: async (
+			recordingId,
+			{ sendStatus, onInputLevel, onRecordingSamples },
+		) => {
 			if (!maybeCurrentSession) {
 				return WhisperingErr({
 					title: '🚫 No Active Session',
@@ -118,18 +351,16 @@ export function createRecorderServiceWeb(): RecorderService {
 					{ sendStatus },
 				);
 				if (!acquireStreamResult.ok) return acquireStreamResult;
-				const stream = acquireStreamResult.data;
-				maybeCurrentSession = {
-					settings: currentSession.settings,
-					stream,
-					recorder: null,
-				};
+				replaceSessionStream(currentSession, acquireStreamResult.data);
 			}
 			const newRecorderResult = await tryAsync({
 				try: async () => {
-					return new MediaRecorder(currentSession.stream, {
-						bitsPerSecond: currentSession.settings.bitsPerSecond,
-					});
+					const { bitsPerSecond } = currentSession.settings;
+					const mimeType = getRecordingMimeType(currentSession.settings);
+					return new MediaRecorder(
+						currentSession.audioGraph.destination.stream,
+						{ bitsPerSecond, ...(mimeType && { mimeType }) },
+					);
 				},
 				mapErr: (error) =>
 					WhisperingErr({
@@ -141,16 +372,96 @@ export function createRecorderServiceWeb(): RecorderService {
 			});
 			if (!newRecorderResult.ok) return newRecorderResult;
 			const newRecorder = newRecorderResult.data;
-			maybeCurrentSession.recorder = {
+			const { preRollBuffer } = currentSession;
+			const preRollSamples =
+				preRollBuffer &&
+				currentSession.settings.preRollMs > 0 &&
+				(await canPrependPreRoll(newRecorder.mimeType))
+					? preRollBuffer.snapshot()
+					: new Float32Array(0);
+			const preRoll =
+				// Nothing is buffered yet right after the session opens
+				preRollBuffer && preRollSamples.length > 0
+					? { samples: preRollSamples, sampleRate: preRollBuffer.sampleRate }
+					: null;
+			currentSession.recorder = {
 				mediaRecorder: newRecorder,
 				recordedChunks: [],
+				preRoll,
 				recordingId,
+				onInputLevel,
+				onRecordingSamples,
+				stopInputLevelMeter: onInputLevel
+					? startInputLevelMeter(
+							currentSession.audioGraph.destination.stream,
+							onInputLevel,
+						)
+					: () => {},
 			};
 			newRecorder.addEventListener('dataavailable', (event: BlobEvent) => {
 				if (!event.data.size) return;
 				maybeCurrentSession?.recorder?.recordedChunks.push(event.data);
 			});
 			newRecorder.start(TIMESLICE_MS);
+			// Streaming hears the pre-roll too, like the saved recording
+			if (preRoll) onRecordingSamples?.(preRoll.samples, preRoll.sampleRate);
+			startTappingSamples(currentSession);
+			return Ok(undefined);
+		},
+
+		pauseRecording: async () => {
+			if (maybeCurrentSession?.recorder?.mediaRecorder.state !== 'recording') {
+				return WhisperingErr({
+					title: '⚠️ Nothing to Pause',
+					description: 'No active recording found to pause',
+					action: { type: 'more-details', error: undefined },
+				});
+			}
+			const recorder = maybeCurrentSession.recorder;
+			const pauseResult = trySync({
+				try: () => recorder.mediaRecorder.pause(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '⏸️ Pause Failed',
+						description: 'Unable to pause your recording. Please try again',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!pauseResult.ok) return pauseResult;
+			// The meter would otherwise keep reporting input that isn't recorded
+			recorder.stopInputLevelMeter();
+			recorder.stopInputLevelMeter = () => {};
+			maybeCurrentSession.preRollBuffer?.setOnBlock(null);
+			return Ok(undefined);
+		},
+
+		resumeRecording: async () => {
+			if (maybeCurrentSession?.recorder?.mediaRecorder.state !== 'paused') {
+				return WhisperingErr({
+					title: '⚠️ Nothing to Resume',
+					description: 'No paused recording found to resume',
+					action: { type: 'more-details', error: undefined },
+				});
+			}
+			const currentSession = maybeCurrentSession;
+			const recorder = maybeCurrentSession.recorder;
+			const resumeResult = trySync({
+				try: () => recorder.mediaRecorder.resume(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '▶️ Resume Failed',
+						description: 'Unable to resume your recording. Please try again',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!resumeResult.ok) return resumeResult;
+			if (recorder.onInputLevel) {
+				recorder.stopInputLevelMeter = startInputLevelMeter(
+					currentSession.audioGraph.destination.stream,
+					recorder.onInputLevel,
+				);
+			}
+			startTappingSamples(currentSession);
 			return Ok(undefined);
 		},
 
@@ -163,6 +474,8 @@ export function createRecorderServiceWeb(): RecorderService {
 				});
 			}
 			const recorder = maybeCurrentSession.recorder;
+			recorder.stopInputLevelMeter();
+			maybeCurrentSession.preRollBuffer?.setOnBlock(null);
 			const stopResult = await tryAsync({
 				try: () =>
 					new Promise<Blob>((resolve) => {
@@ -184,7 +497,23 @@ export function createRecorderServiceWeb(): RecorderService {
 			if (!stopResult.ok) return stopResult;
 			const blob = stopResult.data;
 			maybeCurrentSession.recorder = null;
-			return Ok(blob);
+			const { preRoll } = recorder;
+			if (!preRoll) return Ok(blob);
+			const withPreRollResult = await tryAsync({
+				try: () => prependPreRoll(blob, preRoll),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '⚠️ Pre-roll Unavailable',
+						description: "We couldn't add the pre-roll to your recording.",
+						action: { type: 'more-details', error },
+					}),
+			});
+			// The recording without its first moments beats no recording
+			if (!withPreRollResult.ok) {
+				console.error('Unable to prepend pre-roll:', withPreRollResult.error);
+				return Ok(blob);
+			}
+			return Ok(withPreRollResult.data);
 		},
 
 		cancelRecording: async () => {
@@ -196,6 +525,8 @@ export function createRecorderServiceWeb(): RecorderService {
 				});
 			}
 			const recorder = maybeCurrentSession.recorder;
+			recorder.stopInputLevelMeter();
+			maybeCurrentSession.preRollBuffer?.setOnBlock(null);
 			recorder.mediaRecorder.stop();
 			maybeCurrentSession.recorder = null;
 			return Ok(undefined);
@@ -203,7 +534,55 @@ export function createRecorderServiceWeb(): RecorderService {
 	};
 }
 
-async function getFirstAvailableStream() {
+const OPUS_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+
+/**
+ * The picked format if the platform can record it. Pre-roll is only joined
+ * to Opus recordings, so with pre-roll on, the platform default gives way to
+ * Opus where it's supported.
+ */
+function getRecordingMimeType({
+	mimeType,
+	preRollMs,
+}: RecordingSessionSettings) {
+	const candidates = mimeType
+		? [mimeType]
+		: preRollMs > 0
+			? OPUS_MIME_TYPES
+			: [];
+	return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Recordings in other formats are left alone rather than converted, so the
+ * picked recording format is kept.
+ */
+const canPrependPreRoll = async (mimeType: string) =>
+	mimeType.includes('opus') && (await isOpusEncodingSupported());
+
+/**
+ * MediaRecorder output can't be spliced, so the Opus recording is decoded,
+ * joined with the pre-roll and encoded as Opus again.
+ */
+async function prependPreRoll(
+	blob: Blob,
+	preRoll: { samples: Float32Array; sampleRate: number },
+) {
+	const [preRollSamples, recordingSamples] = await Promise.all([
+		resampleAudio(preRoll.samples, { fromSampleRate: preRoll.sampleRate }),
+		decodeAudioBlob(blob),
+	]);
+	const samples = new Float32Array(
+		preRollSamples.length + recordingSamples.length,
+	);
+	samples.set(preRollSamples);
+	samples.set(recordingSamples, preRollSamples.length);
+	return encodeOpus(samples);
+}
+
+async function getFirstAvailableStream(
+	audioProcessing: AudioProcessingSettings,
+) {
 	const enumerateDevicesResult = await enumerateRecordingDevices();
 	if (!enumerateDevicesResult.ok)
 		return WhisperingErr({
@@ -215,7 +594,10 @@ async function getFirstAvailableStream() {
 		});
 	const recordingDevices = enumerateDevicesResult.data;
 	for (const device of recordingDevices) {
-		const streamResult = await getStreamForDeviceId(device.deviceId);
+		const streamResult = await getStreamForDeviceId(
+			device.deviceId,
+			audioProcessing,
+		);
 		if (streamResult.ok) {
 			return streamResult;
 		}
@@ -252,12 +634,16 @@ async function enumerateRecordingDevices() {
 	});
 }
 
-async function getStreamForDeviceId(recordingDeviceId: string) {
+async function getStreamForDeviceId(
+	recordingDeviceId: string,
+	audioProcessing: AudioProcessingSettings,
+) {
 	return tryAsync({
 		try: async () => {
 			const stream = await navigator.mediaDevices.getUserMedia({
 				audio: {
 					...WHISPER_RECOMMENDED_MEDIA_TRACK_CONSTRAINTS,
+					...audioProcessing,
 					deviceId: { exact: recordingDeviceId },
 				},
 			});
@@ -271,3 +657,56 @@ async function getStreamForDeviceId(recordingDeviceId: string) {
 			}),
 	});
 }
+
+/**
+ * Reads back the audio processing the browser applied, which isn't always
+ * what was asked for.
+ */
+function getAppliedAudioProcessing(stream: MediaStream) {
+	const trackSettings = stream.getAudioTracks().at(0)?.getSettings();
+	if (!trackSettings) return null;
+	const appliedAudioProcessing: Partial<AudioProcessingSettings> = {};
+	for (const key of [
+		'echoCancellation',
+		'noiseSuppression',
+		'autoGainControl',
+	] as const) {
+		const applied = trackSettings[key];
+		if (typeof applied === 'boolean') appliedAudioProcessing[key] = applied;
+	}
+	return appliedAudioProcessing;
+}
+
+/**
+ * Meters the input level of `stream` with an `AnalyserNode` and reports it
+ * through `onInputLevel` until the returned function is called.
+ */
+function startInputLevelMeter(stream: MediaStream, onInputLevel: InputLevelFn) {
+	const audioContext = new AudioContext();
+	const source = audioContext.createMediaStreamSource(stream);
+	const analyser = audioContext.createAnalyser();
+	analyser.fftSize = 1024;
+	source.connect(analyser);
+	const samples = new Float32Array(analyser.fftSize);
+
+	const interval = setInterval(() => {
+		analyser.getFloatTimeDomainData(samples);
+		let sumOfSquares = 0;
+		for (const sample of samples) {
+			sumOfSquares += sample * sample;
+		}
+		const rms = Math.sqrt(sumOfSquares / samples.length);
+		const db = rms > 0 ? 20 * Math.log10(rms) : Number.NEGATIVE_INFINITY;
+		const level = Math.min(
+			1,
+			Math.max(0, (db - INPUT_LEVEL_FLOOR_DB) / -INPUT_LEVEL_FLOOR_DB),
+		);
+		onInputLevel(level);
+	}, INPUT_LEVEL_INTERVAL_MS);
+
+	return () => {
+		clearInterval(interval);
+		source.disconnect();
+		void audioContext.close();
+	};
+}
@@ -0,0 +1,87 @@
+const PRE_ROLL_PROCESSOR_NAME = 'pre-roll-processor';
+
+/**
+ * Posts every block of input to the main thread. Loaded from a blob URL so
+ * it doesn't need its own entry in the build.
+ */
+const PRE_ROLL_PROCESSOR_SOURCE = `
+class PreRollProcessor extends AudioWorkletProcessor {
+	process(inputs) {
+		const channel = inputs[0]?.[0];
+		if (channel) this.port.postMessage(channel.slice());
+		return true;
+	}
+}
+registerProcessor('${PRE_ROLL_PROCESSOR_NAME}', PreRollProcessor);
+`;
+
+export type PreRollBuffer = Awaited<ReturnType<typeof createPreRollBuffer>>;
+
+/**
+ * Keeps the last `durationMs` of audio from whatever is connected to it, so
+ * a recording can start with the moment before it was started. It can also
+ * pass the audio on as it arrives, so it's created even without pre-roll.
+ */
+export async function createPreRollBuffer(
+	audioContext: AudioContext,
+	{ durationMs, output }: { durationMs: number; output: AudioNode },
+) {
+	const moduleUrl = URL.createObjectURL(
+		new Blob([PRE_ROLL_PROCESSOR_SOURCE], { type: 'text/javascript' }),
+	);
+	try {
+		await audioContext.audioWorklet.addModule(moduleUrl);
+	} finally {
+		URL.revokeObjectURL(moduleUrl);
+	}
+
+	const node = new AudioWorkletNode(audioContext, PRE_ROLL_PROCESSOR_NAME, {
+		numberOfInputs: 1,
+		numberOfOutputs: 1,
+		channelCount: 1,
+		channelCountMode: 'explicit',
+	});
+	// The processor only outputs silence, but browsers only run nodes that
+	// lead somewhere, so it's connected to a node that's already running.
+	node.connect(output);
+
+	const maxSamples = Math.ceil((durationMs / 1000) * audioContext.sampleRate);
+	const blocks: Float32Array[] = [];
+	let bufferedSamples = 0;
+	let onBlock: ((block: Float32Array) => void) | null = null;
+	node.port.onmessage = ({ data }: MessageEvent<Float32Array>) => {
+		onBlock?.(data);
+		blocks.push(data);
+		bufferedSamples += data.length;
+		let oldestBlock = blocks.at(0);
+		while (oldestBlock && bufferedSamples - oldestBlock.length >= maxSamples) {
+			blocks.shift();
+			bufferedSamples -= oldestBlock.length;
+			oldestBlock = blocks.at(0);
+		}
+	};
+
+	return {
+		sampleRate: audioContext.sampleRate,
+		connect: (source: AudioNode) => source.connect(node),
+		/** Copies out the most recent `durationMs` of audio. */
+		snapshot: () => {
+			const samples = new Float32Array(bufferedSamples);
+			let offset = 0;
+			for (const block of blocks) {
+				samples.set(block, offset);
+				offset += block.length;
+			}
+			return samples.subarray(Math.max(0, samples.length - maxSamples));
+		},
+		/** Sends every new block of audio to `onBlock`, until it's unset. */
+		setOnBlock: (newOnBlock: ((block: Float32Array) => void) | null) => {
+			onBlock = newOnBlock;
+		},
+		close: () => {
+			onBlock = null;
+			node.port.onmessage = null;
+			node.disconnect();
+		},
+	};
+}
@@ -5,11 +5,19 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import {
 	POST_PROCESSING_PROMPT_SYSTEM_DEFAULT,
 	POST_PROCESSING_PROMPT_USER_DEFAULT,
+	TRANSLATION_PROMPT_SYSTEM,
+	TRANSLATION_PROMPT_USER,
 	WhisperingErr,
 	type PostProcessingConfig,
+	type WhisperingResult,
 } from '@repo/shared';
 import { z } from 'zod';
 import type { HttpService } from './http/HttpService';
+import {
+	type InferenceUsage,
+	MonthlyBudgetReachedErr,
+	type UsageService,
+} from './UsageService';
 
 type TransformErrorProperties = {
 	_tag: 'TransformError';
@@ -22,7 +30,9 @@ type TransformErrorProperties = {
 		| 'FAILED_TO_ADD_TRANSFORMATION_STEP_RUN'
 		| 'FAILED_TO_MARK_TRANSFORMATION_RUN_AND_STEP_AS_FAILED'
 		| 'FAILED_TO_MARK_TRANSFORMATION_RUN_STEP_AS_COMPLETED'
-		| 'FAILED_TO_MARK_TRANSFORMATION_RUN_AS_COMPLETED';
+		| 'FAILED_TO_MARK_TRANSFORMATION_RUN_AS_COMPLETED'
+		| 'CANCELED'
+		| 'BUDGET_REACHED';
 };
 
 export type TransformError = Err<TransformErrorProperties>;
@@ -76,6 +86,13 @@ export const TransformErrorToWhisperingErr = ({ error }: TransformError) => {
 				title: '⚠️ Failed to mark transformation run as completed',
 				description: 'Could not mark the transformation run as completed.',
 			});
+		case 'CANCELED':
+			return WhisperingErr({
+				title: '🚫 Transformation canceled',
+				description: 'The transformation was canceled before it finished.',
+			});
+		case 'BUDGET_REACHED':
+			return MonthlyBudgetReachedErr();
 	}
 };
 
@@ -89,14 +106,28 @@ export const TransformError = <
 		...properties,
 	}) satisfies TransformError;
 
+/** LLMs can be slow on long inputs, but not this slow. */
+const LLM_REQUEST_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Token counts in OpenAI-style chat completion responses. */
+const openAiUsageSchema = z.object({
+	prompt_tokens: z.number(),
+	completion_tokens: z.number(),
+});
+
 export const handleStep = async ({
 	input,
 	config,
 	HttpService,
+	signal,
+	onUsage,
 }: {
 	input: string;
 	config: PostProcessingConfig;
 	HttpService: HttpService;
+	signal?: AbortSignal;
+	/** Called with the tokens an LLM request used, when the provider says. */
+	onUsage?: (usage: InferenceUsage) => void;
 }): Promise<Result<string, string>> => {
 	switch (config.type) {
 		case 'find_replace': {
@@ -153,6 +184,8 @@ export const handleStep = async ({
 								{ role: 'user', content: userPrompt },
 							],
 						}),
+						signal,
+						timeoutMs: LLM_REQUEST_TIMEOUT_MS,
 						schema: z.object({
 							choices: z.array(
 								z.object({
@@ -161,6 +194,7 @@ export const handleStep = async ({
 									}),
 								}),
 							),
+							usage: openAiUsageSchema.optional(),
 						}),
 					});
 
@@ -168,6 +202,14 @@ export const handleStep = async ({
 						const { error, code } = result.error;
 						return Err(`OpenAI API Error: ${getErrorMessage(error)} (${code})`);
 					}
+					if (result.data.usage) {
+						onUsage?.({
+							provider,
+							model,
+							promptTokens: result.data.usage.prompt_tokens,
+							completionTokens: result.data.usage.completion_tokens,
+						});
+					}
 
 					const responseText = result.data.choices[0]?.message?.content;
 					if (!responseText) {
@@ -193,6 +235,8 @@ export const handleStep = async ({
 								{ role: 'user', content: userPrompt },
 							],
 						}),
+						signal,
+						timeoutMs: LLM_REQUEST_TIMEOUT_MS,
 						schema: z.object({
 							choices: z.array(
 								z.object({
@@ -201,6 +245,7 @@ export const handleStep = async ({
 									}),
 								}),
 							),
+							usage: openAiUsageSchema.optional(),
 						}),
 					});
 
@@ -208,6 +253,14 @@ export const handleStep = async ({
 						const { error, code } = result.error;
 						return Err(`Groq API Error: ${getErrorMessage(error)} (${code})`);
 					}
+					if (result.data.usage) {
+						onUsage?.({
+							provider,
+							model,
+							promptTokens: result.data.usage.prompt_tokens,
+							completionTokens: result.data.usage.completion_tokens,
+						});
+					}
 
 					const responseText = result.data.choices[0]?.message?.content;
 					if (!responseText) {
@@ -234,6 +287,8 @@ export const handleStep = async ({
 							messages: [{ role: 'user', content: userPrompt }],
 							max_tokens: 1024,
 						}),
+						signal,
+						timeoutMs: LLM_REQUEST_TIMEOUT_MS,
 						schema: z.object({
 							content: z.array(
 								z.object({
@@ -241,6 +296,12 @@ export const handleStep = async ({
 									text: z.string(),
 								}),
 							),
+							usage: z
+								.object({
+									input_tokens: z.number(),
+									output_tokens: z.number(),
+								})
+								.optional(),
 						}),
 					});
 
@@ -250,6 +311,14 @@ export const handleStep = async ({
 							`Anthropic API Error: ${getErrorMessage(error)} (${code})`,
 						);
 					}
+					if (result.data.usage) {
+						onUsage?.({
+							provider,
+							model,
+							promptTokens: result.data.usage.input_tokens,
+							completionTokens: result.data.usage.output_tokens,
+						});
+					}
 
 					const responseText = result.data.content[0]?.text;
 					if (!responseText) {
@@ -260,6 +329,8 @@ export const handleStep = async ({
 				}
 
 				case 'Google': {
+					const model =
+						config['prompt_transform.inference.provider.Google.model'];
 					const combinedPrompt = `${systemPrompt}\n${userPrompt}`;
 
 					const result = await tryAsync({
@@ -268,12 +339,14 @@ export const handleStep = async ({
 								settings.value['apiKeys.google'],
 							);
 
-							const model = genAI.getGenerativeModel({
-								model:
-									config['prompt_transform.inference.provider.Google.model'],
+							const generativeModel = genAI.getGenerativeModel({
+								model,
 								generationConfig: { temperature: 0 },
 							});
-							return await model.generateContent(combinedPrompt);
+							return await generativeModel.generateContent(combinedPrompt, {
+								signal,
+								timeout: LLM_REQUEST_TIMEOUT_MS,
+							});
 						},
 						mapErr: (error) => {
 							return Err(getErrorMessage(error));
@@ -281,6 +354,15 @@ export const handleStep = async ({
 					});
 					if (!result.ok) return result;
 
+					const { usageMetadata } = result.data.response;
+					if (usageMetadata) {
+						onUsage?.({
+							provider,
+							model,
+							promptTokens: usageMetadata.promptTokenCount,
+							completionTokens: usageMetadata.candidatesTokenCount,
+						});
+					}
 					const responseText = result.data.response.text();
 
 					if (!responseText) {
@@ -302,22 +384,42 @@ export const handleStep = async ({
 
 export function createRunTransformationService({
 	HttpService,
+	UsageService,
 }: {
 	HttpService: HttpService;
+	UsageService: UsageService;
 }) {
+	/** Whether the config calls a paid LLM while this month's budget is spent. */
+	const isBlockedByBudget = async (config: PostProcessingConfig) => {
+		if (config.type !== 'prompt_transform') return false;
+		const provider = config['prompt_transform.inference.provider'];
+		const model =
+			config[`prompt_transform.inference.provider.${provider}.model` as const];
+		if (!UsageService.isPaidInference({ provider, model })) return false;
+		return UsageService.isPaidUsageBlocked();
+	};
+
 	const runTransformation = async ({
 		input,
 		config,
+		signal,
 	}: {
 		input: string;
 		config: PostProcessingConfig;
+		signal?: AbortSignal;
 	}): Promise<TransformResult<string>> => {
+		if (await isBlockedByBudget(config)) {
+			return TransformError({ code: 'BUDGET_REACHED' });
+		}
 		const handleStepResult = await handleStep({
 			input,
 			config,
 			HttpService,
+			signal,
+			onUsage: UsageService.recordInference,
 		});
 
+		if (signal?.aborted) return TransformError({ code: 'CANCELED' });
 		if (!handleStepResult.ok) {
 			return TransformError({
 				code: 'FAILED_TO_ADD_TRANSFORMATION_STEP_RUN',
@@ -331,9 +433,11 @@ export function createRunTransformationService({
 		runTransformation: async ({
 			input,
 			config,
+			signal,
 		}: {
 			input: string;
 			config: PostProcessingConfig;
+			signal?: AbortSignal;
 		}): Promise<TransformResult<string>> => {
 			if (!input.trim()) {
 				return TransformError({ code: 'NO_INPUT' });
@@ -341,7 +445,49 @@ export function createRunTransformationService({
 			return runTransformation({
 				input,
 				config,
+				signal,
 			});
 		},
+		/**
+		 * Translates text to English with the post-processing provider, for
+		 * transcription services that can't translate audio themselves.
+		 */
+		translateToEnglish: async (
+			input: string,
+			{ signal }: { signal?: AbortSignal } = {},
+		): Promise<WhisperingResult<string>> => {
+			const provider =
+				settings.value['postProcessing.config'][
+					'prompt_transform.inference.provider'
+				];
+			const config = {
+				...settings.value['postProcessing.config'],
+				type: 'prompt_transform',
+				'prompt_transform.systemPromptTemplate': TRANSLATION_PROMPT_SYSTEM,
+				'prompt_transform.userPromptTemplate': TRANSLATION_PROMPT_USER,
+			} satisfies PostProcessingConfig;
+			if (await isBlockedByBudget(config)) return MonthlyBudgetReachedErr();
+			const translateResult = await handleStep({
+				input,
+				config,
+				HttpService,
+				signal,
+				onUsage: UsageService.recordInference,
+			});
+			if (signal?.aborted) {
+				return WhisperingErr({
+					title: '🚫 Translation canceled',
+					description: 'The translation was canceled before it finished.',
+				});
+			}
+			if (!translateResult.ok) {
+				return WhisperingErr({
+					title: '🌐 Translation failed',
+					description: `Your transcription service can't translate audio, so we tried translating the text with ${provider}, which failed. Check its API key in the post-processing settings.`,
+					action: { type: 'more-details', error: translateResult.error },
+				});
+			}
+			return Ok(translateResult.data.trim());
+		},
 	};
 }
@@ -0,0 +1,181 @@
+import { settings } from '$lib/stores/settings.svelte';
+import {
+	WHISPER_SAMPLE_RATE,
+	decodeAudioBlob,
+	encodeWav,
+	splitOnSilence,
+} from '$lib/utils/audio';
+import { shiftSegments } from '$lib/utils/transcript';
+import { Ok, tryAsync } from '@epicenterhq/result';
+import type { MaybePromise } from '@repo/shared';
+import type { HttpServiceErr } from '../http/HttpService';
+import {
+	HttpServiceErrIntoTranscriptionServiceErr,
+	type Transcript,
+	type TranscriptSegment,
+	type TranscriptionService,
+	TranscriptionServiceErr,
+	type TranscriptionServiceResult,
+} from './TranscriptionService';
+
+export type TranscriptionOptions = Parameters<
+	TranscriptionService['transcribe']
+>[1];
+
+export type TranslationOptions = Parameters<
+	NonNullable<TranscriptionService['translateToEnglish']>
+>[1];
+
+/**
+ * How to talk to one transcription provider. Adapters only describe a single
+ * request for a single piece of audio; validation, splitting long recordings
+ * and joining the results is shared by `createTranscriptionServiceFromAdapter`.
+ */
+export type TranscriptionAdapter = {
+	/**
+	 * Checks settings like API keys before any audio is sent, so a missing
+	 * key is reported without waiting on the network.
+	 */
+	preValidate: () => MaybePromise<Ok<undefined> | TranscriptionServiceErr>;
+	/** Recordings larger than this are split at pauses and sent in parts. */
+	maxFileSizeMb: number;
+	/**
+	 * Transcribes one piece of audio. When a long recording is split,
+	 * `previousSegmentText` is the text of the part before, for providers
+	 * that can take it as context.
+	 */
+	transcribeBlob: (
+		audioBlob: Blob,
+		options: TranscriptionOptions,
+		previousSegmentText: string | undefined,
+	) => Promise<TranscriptionServiceResult<Transcript>>;
+	/**
+	 * Translates one piece of audio to English, for providers that can.
+	 * Without it, the service has no `translateToEnglish`.
+	 */
+	translateBlob?: (
+		audioBlob: Blob,
+		options: TranslationOptions,
+		previousSegmentText: string | undefined,
+	) => Promise<TranscriptionServiceResult<Transcript>>;
+};
+
+/**
+ * How long a single transcription request may take, including the upload.
+ * Generous, since a 25MB upload on a slow connection takes minutes.
+ */
+export const TRANSCRIPTION_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** A 10 minute mono 16kHz WAV is ~19MB, safely under every upload limit. */
+const MAX_SEGMENT_DURATION_S = 10 * 60;
+
+export function createTranscriptionServiceFromAdapter(
+	adapter: TranscriptionAdapter,
+): TranscriptionService {
+	/**
+	 * Sends the audio in one piece if the provider takes it, or split at
+	 * pauses into parts that it does. Timestamps from later parts are moved
+	 * by the length of the parts before them.
+	 */
+	const sendInSegments = async (
+		audioBlob: Blob,
+		sendBlob: (
+			blob: Blob,
+			previousSegmentText: string | undefined,
+		) => Promise<TranscriptionServiceResult<Transcript>>,
+	): Promise<TranscriptionServiceResult<Transcript>> => {
+		const validationResult = await adapter.preValidate();
+		if (!validationResult.ok) {
+			return validationResult;
+		}
+
+		const blobSizeInMb = audioBlob.size / (1024 * 1024);
+		if (blobSizeInMb <= adapter.maxFileSizeMb) {
+			return sendBlob(audioBlob, undefined);
+		}
+
+		const splitResult = await tryAsync({
+			try: async () => {
+				const samples = await decodeAudioBlob(audioBlob);
+				return splitOnSilence(samples, {
+					maxSegmentDurationS: MAX_SEGMENT_DURATION_S,
+				}).map((segment) => ({
+					blob: encodeWav(segment),
+					durationS: segment.length / WHISPER_SAMPLE_RATE,
+				}));
+			},
+			mapErr: (error) =>
+				TranscriptionServiceErr({
+					title: `The file size (${blobSizeInMb.toFixed(1)}MB) is too large`,
+					description: `We couldn't split the audio into parts smaller than ${adapter.maxFileSizeMb}MB. Please try a shorter recording.`,
+					action: { type: 'more-details', error },
+				}),
+		});
+		if (!splitResult.ok) return splitResult;
+
+		const usePreviousTextAsPrompt =
+			settings.value['transcription.chunking.usePreviousTextAsPrompt'];
+		const segmentTexts: string[] = [];
+		const segments: TranscriptSegment[] = [];
+		let hasAllSegments = true;
+		let offsetS = 0;
+		for (const { blob, durationS } of splitResult.data) {
+			const segmentResult = await sendBlob(
+				blob,
+				usePreviousTextAsPrompt ? segmentTexts.at(-1) : undefined,
+			);
+			if (!segmentResult.ok) return segmentResult;
+			segmentTexts.push(segmentResult.data.text);
+			if (segmentResult.data.segments) {
+				segments.push(...shiftSegments(segmentResult.data.segments, offsetS));
+			} else {
+				hasAllSegments = false;
+			}
+			offsetS += durationS;
+		}
+
+		return Ok({
+			text: segmentTexts.filter(Boolean).join(' '),
+			segments: hasAllSegments ? segments : null,
+		});
+	};
+
+	const { translateBlob } = adapter;
+	return {
+		transcribe: (audioBlob, options) =>
+			sendInSegments(audioBlob, (blob, previousSegmentText) =>
+				adapter.transcribeBlob(blob, options, previousSegmentText),
+			),
+		translateToEnglish: translateBlob
+			? (audioBlob, options) =>
+					sendInSegments(audioBlob, (blob, previousSegmentText) =>
+						translateBlob(blob, options, previousSegmentText),
+					)
+			: undefined,
+	};
+}
+
+/**
+ * Maps the HTTP statuses a provider documents to its own errors, and
+ * everything else to the generic ones.
+ */
+export function createHttpErrorMapper(
+	statusErrors: Partial<
+		Record<
+			number,
+			(detail: unknown) => Parameters<typeof TranscriptionServiceErr>[0]
+		>
+	>,
+) {
+	return (httpServiceErr: HttpServiceErr): TranscriptionServiceErr => {
+		const { error } = httpServiceErr;
+		if (error.code !== 'HttpError') {
+			return HttpServiceErrIntoTranscriptionServiceErr(httpServiceErr);
+		}
+		const toErrProperties = statusErrors[error.status];
+		if (!toErrProperties) {
+			return HttpServiceErrIntoTranscriptionServiceErr(httpServiceErr);
+		}
+		return TranscriptionServiceErr(toErrProperties(error.error));
+	};
+}
@@ -0,0 +1,190 @@
+import { groupWordsIntoSegments } from '$lib/utils/transcript';
+import { Ok } from '@epicenterhq/result';
+import type { Settings } from '@repo/shared';
+import { z } from 'zod';
+import { type HttpService, HttpServiceErr } from '../http/HttpService';
+import {
+	TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+	createHttpErrorMapper,
+	createTranscriptionServiceFromAdapter,
+} from './TranscriptionAdapter';
+import {
+	type TranscriptionService,
+	TranscriptionServiceErr,
+} from './TranscriptionService';
+
+const ASSEMBLYAI_API_URL = 'https://api.assemblyai.com/v2';
+
+const uploadResponseSchema = z.object({ upload_url: z.string() });
+
+const transcriptResponseSchema = z.object({
+	id: z.string(),
+	status: z.enum(['queued', 'processing', 'completed', 'error']),
+	text: z.string().nullish(),
+	/** Times are in milliseconds. */
+	words: z
+		.array(z.object({ text: z.string(), start: z.number(), end: z.number() }))
+		.nullish(),
+	error: z.string().nullish(),
+});
+
+/** AssemblyAI takes uploads of up to 2.2GB. */
+const MAX_FILE_SIZE_MB = 2000;
+const POLL_INTERVAL_MS = 1000;
+/** Jobs usually finish in a fraction of the audio's length. */
+const MAX_POLL_DURATION_MS = 10 * 60 * 1000;
+
+/** Waits a poll interval, or less if `signal` aborts. */
+const waitForNextPoll = (signal: AbortSignal | undefined) =>
+	new Promise<void>((resolve) => {
+		if (signal?.aborted) return resolve();
+		const stopWaiting = () => {
+			clearTimeout(timeout);
+			signal?.removeEventListener('abort', stopWaiting);
+			resolve();
+		};
+		const timeout = setTimeout(stopWaiting, POLL_INTERVAL_MS);
+		signal?.addEventListener('abort', stopWaiting, { once: true });
+	});
+
+const mapAssemblyAiHttpError = createHttpErrorMapper({
+	400: (error) => ({
+		title: '🎵 AssemblyAI rejected the request',
+		description:
+			'One of the options (like the speech model or language) is not supported by AssemblyAI.',
+		action: { type: 'more-details', error },
+	}),
+	401: () => ({
+		title: '🔑 Invalid AssemblyAI API Key',
+		description: 'AssemblyAI did not accept your API key.',
+		action: {
+			type: 'link',
+			label: 'Update API Key',
+			goto: '/settings/transcription',
+		},
+	}),
+});
+
+/**
+ * AssemblyAI transcribes in jobs: the audio is uploaded, a job is created for
+ * it, and the job is polled until it's done.
+ */
+export function createAssemblyAiTranscriptionService({
+	HttpService,
+	apiKey,
+	speechModel,
+}: {
+	HttpService: HttpService;
+	apiKey: string;
+	speechModel: Settings['transcription.assemblyai.speechModel'];
+}): TranscriptionService {
+	return createTranscriptionServiceFromAdapter({
+		preValidate: () => {
+			if (!apiKey) {
+				return TranscriptionServiceErr({
+					title: 'AssemblyAI API Key not provided.',
+					description: 'Please enter your AssemblyAI API key in the settings',
+					action: {
+						type: 'link',
+						label: 'Go to settings',
+						goto: '/settings/transcription',
+					},
+				});
+			}
+			return Ok(undefined);
+		},
+		maxFileSizeMb: MAX_FILE_SIZE_MB,
+		transcribeBlob: async (audioBlob, options) => {
+			const uploadResult = await HttpService.post({
+				url: `${ASSEMBLYAI_API_URL}/upload`,
+				body: audioBlob,
+				headers: {
+					Authorization: apiKey,
+					'Content-Type': 'application/octet-stream',
+				},
+				schema: uploadResponseSchema,
+				signal: options.signal,
+				timeoutMs: TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+			});
+			if (!uploadResult.ok) return mapAssemblyAiHttpError(uploadResult);
+
+			const createJobResult = await HttpService.post({
+				url: `${ASSEMBLYAI_API_URL}/transcript`,
+				body: JSON.stringify({
+					audio_url: uploadResult.data.upload_url,
+					speech_model: speechModel,
+					...(options.outputLanguage === 'auto'
+						? { language_detection: true }
+						: { language_code: options.outputLanguage }),
+				}),
+				headers: {
+					Authorization: apiKey,
+					'Content-Type': 'application/json',
+				},
+				schema: transcriptResponseSchema,
+				signal: options.signal,
+				timeoutMs: TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+			});
+			if (!createJobResult.ok) {
+				return mapAssemblyAiHttpError(createJobResult);
+			}
+
+			let transcript = createJobResult.data;
+			const pollStartedAt = Date.now();
+			while (
+				transcript.status === 'queued' ||
+				transcript.status === 'processing'
+			) {
+				if (Date.now() - pollStartedAt > MAX_POLL_DURATION_MS) {
+					return TranscriptionServiceErr({
+						title: '⏳ AssemblyAI is taking too long',
+						isRetryable: true,
+						description:
+							'The transcription job did not finish in time. It may be busy, please try again later.',
+						action: { type: 'more-details', error: transcript.id },
+					});
+				}
+				await waitForNextPoll(options.signal);
+				if (options.signal?.aborted) {
+					return mapAssemblyAiHttpError(
+						HttpServiceErr({ code: 'Aborted', error: options.signal.reason }),
+					);
+				}
+				const pollResult = await HttpService.get({
+					url: `${ASSEMBLYAI_API_URL}/transcript/${transcript.id}`,
+					headers: { Authorization: apiKey },
+					schema: transcriptResponseSchema,
+					signal: options.signal,
+					timeoutMs: TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+				});
+				if (!pollResult.ok) return mapAssemblyAiHttpError(pollResult);
+				transcript = pollResult.data;
+			}
+
+			if (transcript.status === 'error') {
+				return TranscriptionServiceErr({
+					title: '❌ AssemblyAI could not transcribe the recording',
+					description:
+						transcript.error ??
+						'The transcription job failed without a reason.',
+					action: { type: 'more-details', error: transcript.error },
+				});
+			}
+
+			const text = (transcript.text ?? '').trim();
+			if (!options.timestamps || !transcript.words) {
+				return Ok({ text, segments: null });
+			}
+			return Ok({
+				text,
+				segments: groupWordsIntoSegments(
+					transcript.words.map((word) => ({
+						start: word.start / 1000,
+						end: word.end / 1000,
+						word: word.text,
+					})),
+				),
+			});
+		},
+	});
+}
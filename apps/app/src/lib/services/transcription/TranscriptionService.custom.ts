@@ -0,0 +1,80 @@
+import { Ok } from '@epicenterhq/result';
+import type { CustomTranscriptionEndpoint } from '@repo/shared';
+import type { HttpService } from '../http/HttpService';
+import {
+	type TranscriptionService,
+	TranscriptionServiceErr,
+} from './TranscriptionService';
+import { createWhisperService } from './createWhisperService';
+
+/** Parses `Name: value` lines, skipping blank lines and ones without a name. */
+export function parseHeaderLines(headerLines: string) {
+	const headers: Record<string, string> = {};
+	for (const line of headerLines.split('\n')) {
+		const separatorIndex = line.indexOf(':');
+		if (separatorIndex === -1) continue;
+		const name = line.slice(0, separatorIndex).trim();
+		if (!name) continue;
+		headers[name] = line.slice(separatorIndex + 1).trim();
+	}
+	return headers;
+}
+
+export function createCustomTranscriptionService({
+	HttpService,
+	endpoint,
+}: {
+	HttpService: HttpService;
+	endpoint: CustomTranscriptionEndpoint | undefined;
+}): TranscriptionService {
+	const baseUrl = endpoint?.baseUrl.trim().replace(/\/+$/, '') ?? '';
+	return createWhisperService({
+		HttpService,
+		modelName: endpoint?.model ?? '',
+		postConfig: {
+			url: `${baseUrl}/audio/transcriptions`,
+			translationUrl: endpoint?.supportsTranslation
+				? `${baseUrl}/audio/translations`
+				: undefined,
+			headers: {
+				...parseHeaderLines(endpoint?.headers ?? ''),
+				...(endpoint?.apiKey && {
+					Authorization: `Bearer ${endpoint.apiKey}`,
+				}),
+			},
+		},
+		preValidate: async () => {
+			if (!endpoint) {
+				return TranscriptionServiceErr({
+					title: 'No custom endpoint selected',
+					description:
+						'Please add or select an OpenAI-compatible endpoint in the settings',
+					action: {
+						type: 'link',
+						label: 'Go to settings',
+						goto: '/settings/transcription',
+					},
+				});
+			}
+
+			if (!baseUrl) {
+				return TranscriptionServiceErr({
+					title: `No base URL for ${endpoint.name || 'custom endpoint'}`,
+					description:
+						'Please enter the base URL of your server, e.g. http://localhost:8080/v1',
+					action: {
+						type: 'link',
+						label: 'Go to settings',
+						goto: '/settings/transcription',
+					},
+				});
+			}
+
+			return Ok(undefined);
+		},
+		errorConfig: {
+			title: `Server error from ${endpoint?.name || 'custom endpoint'}`,
+			description: 'Please check that your server is running and reachable',
+		},
+	});
+}
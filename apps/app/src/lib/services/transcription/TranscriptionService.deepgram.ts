@@ -0,0 +1,161 @@
+import { groupWordsIntoSegments } from '$lib/utils/transcript';
+import { Ok } from '@epicenterhq/result';
+import type { Settings } from '@repo/shared';
+import { z } from 'zod';
+import type { HttpService } from '../http/HttpService';
+import {
+	TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+	createHttpErrorMapper,
+	createTranscriptionServiceFromAdapter,
+} from './TranscriptionAdapter';
+import {
+	type TranscriptionService,
+	TranscriptionServiceErr,
+} from './TranscriptionService';
+
+const deepgramWordSchema = z.object({
+	word: z.string(),
+	punctuated_word: z.string().optional(),
+	start: z.number(),
+	end: z.number(),
+});
+
+const deepgramResponseSchema = z.object({
+	results: z.object({
+		channels: z.array(
+			z.object({
+				alternatives: z.array(
+					z.object({
+						transcript: z.string(),
+						words: z.array(deepgramWordSchema).optional(),
+					}),
+				),
+			}),
+		),
+		// Only with `utterances=true`
+		utterances: z
+			.array(
+				z.object({
+					start: z.number(),
+					end: z.number(),
+					transcript: z.string(),
+					words: z.array(deepgramWordSchema),
+				}),
+			)
+			.optional(),
+	}),
+});
+
+const toTranscriptWord = (word: z.infer<typeof deepgramWordSchema>) => ({
+	start: word.start,
+	end: word.end,
+	word: word.punctuated_word ?? word.word,
+});
+
+/** Deepgram takes up to 2GB per request, far more than we'd ever record. */
+const MAX_FILE_SIZE_MB = 2000;
+
+const mapDeepgramHttpError = createHttpErrorMapper({
+	400: (error) => ({
+		title: '🎵 Deepgram rejected the request',
+		description:
+			'The audio format or one of the options (like the model or language) is not supported by Deepgram.',
+		action: { type: 'more-details', error },
+	}),
+	401: () => ({
+		title: '🔑 Invalid Deepgram API Key',
+		description: 'Deepgram did not accept your API key.',
+		action: {
+			type: 'link',
+			label: 'Update API Key',
+			goto: '/settings/transcription',
+		},
+	}),
+	402: (error) => ({
+		title: '💳 Deepgram balance too low',
+		description:
+			'Your Deepgram project does not have enough credit to transcribe this recording.',
+		action: { type: 'more-details', error },
+	}),
+	403: (error) => ({
+		title: '⛔ Deepgram model not available',
+		description: "Your API key doesn't have access to the selected model.",
+		action: { type: 'more-details', error },
+	}),
+});
+
+/**
+ * Deepgram's pre-recorded API takes the raw audio as the request body, with
+ * options as query parameters.
+ */
+export function createDeepgramTranscriptionService({
+	HttpService,
+	apiKey,
+	model,
+}: {
+	HttpService: HttpService;
+	apiKey: string;
+	model: Settings['transcription.deepgram.model'];
+}): TranscriptionService {
+	return createTranscriptionServiceFromAdapter({
+		preValidate: () => {
+			if (!apiKey) {
+				return TranscriptionServiceErr({
+					title: 'Deepgram API Key not provided.',
+					description: 'Please enter your Deepgram API key in the settings',
+					action: {
+						type: 'link',
+						label: 'Go to settings',
+						goto: '/settings/transcription',
+					},
+				});
+			}
+			return Ok(undefined);
+		},
+		maxFileSizeMb: MAX_FILE_SIZE_MB,
+		transcribeBlob: async (audioBlob, options) => {
+			const params = new URLSearchParams({ model, smart_format: 'true' });
+			if (options.outputLanguage === 'auto') {
+				params.set('detect_language', 'true');
+			} else {
+				params.set('language', options.outputLanguage);
+			}
+			if (options.timestamps) params.set('utterances', 'true');
+
+			const postResult = await HttpService.post({
+				url: `https://api.deepgram.com/v1/listen?${params}`,
+				body: audioBlob,
+				headers: {
+					Authorization: `Token ${apiKey}`,
+					'Content-Type': audioBlob.type.split(';')[0] || 'audio/*',
+				},
+				schema: deepgramResponseSchema,
+				signal: options.signal,
+				timeoutMs: TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+			});
+			if (!postResult.ok) return mapDeepgramHttpError(postResult);
+
+			const { channels, utterances } = postResult.data.results;
+			const alternative = channels.at(0)?.alternatives.at(0);
+			const text = (alternative?.transcript ?? '').trim();
+			if (!options.timestamps) return Ok({ text, segments: null });
+			if (utterances) {
+				return Ok({
+					text,
+					segments: utterances.map((utterance) => ({
+						start: utterance.start,
+						end: utterance.end,
+						text: utterance.transcript,
+						words: utterance.words.map(toTranscriptWord),
+					})),
+				});
+			}
+			return Ok({
+				text,
+				segments: groupWordsIntoSegments(
+					(alternative?.words ?? []).map(toTranscriptWord),
+				),
+			});
+		},
+	});
+}
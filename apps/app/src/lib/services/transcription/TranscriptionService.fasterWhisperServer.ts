@@ -17,6 +17,7 @@ export function createFasterWhisperServerTranscriptionService({
 		modelName: serverModel,
 		postConfig: {
 			url: `${serverUrl}/v1/audio/transcriptions`,
+			translationUrl: `${serverUrl}/v1/audio/translations`,
 		},
 		preValidate: async () => Ok(undefined),
 		errorConfig: {
@@ -40,6 +40,11 @@ export function createGroqTranscriptionService({
 		modelName,
 		postConfig: {
 			url: 'https://api.groq.com/openai/v1/audio/transcriptions',
+			// Groq only translates with the full large-v3 model
+			translationUrl:
+				modelName === 'whisper-large-v3'
+					? 'https://api.groq.com/openai/v1/audio/translations'
+					: undefined,
 			headers: {
 				Authorization: `Bearer ${apiKey}`,
 			},
@@ -18,6 +18,7 @@ export function createOpenaiTranscriptionService({
 		modelName: 'whisper-1',
 		postConfig: {
 			url: 'https://api.openai.com/v1/audio/transcriptions',
+			translationUrl: 'https://api.openai.com/v1/audio/translations',
 			headers: {
 				Authorization: `Bearer ${apiKey}`,
 			},
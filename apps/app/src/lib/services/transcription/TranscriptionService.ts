@@ -9,6 +9,24 @@ import type { HttpServiceErr } from '../http/HttpService';
 export type TranscriptionServiceErr = WhisperingErr;
 export type TranscriptionServiceResult<T> = Ok<T> | WhisperingErr;
 export type LanguageType = Settings['transcription.outputLanguage'];
+export type TranscriptionTask = Settings['transcription.task'];
+
+/** Times are in seconds from the start of the recording. */
+export type TranscriptWord = { start: number; end: number; word: string };
+
+export type TranscriptSegment = {
+	start: number;
+	end: number;
+	text: string;
+	/** Only when the provider returned word timestamps. */
+	words?: TranscriptWord[];
+};
+
+export type Transcript = {
+	text: string;
+	/** `null` unless timestamps were asked for and the provider has them. */
+	segments: TranscriptSegment[] | null;
+};
 
 export type TranscriptionService = {
 	transcribe: (
@@ -17,12 +35,30 @@ export type TranscriptionService = {
 			prompt: string;
 			temperature: string;
 			outputLanguage: LanguageType;
+			/** Asks for segment and word timestamps along with the text. */
+			timestamps: boolean;
+			signal?: AbortSignal;
+		},
+	) => Promise<TranscriptionServiceResult<Transcript>>;
+	/**
+	 * Transcribes speech in any language straight to English text. Only set
+	 * for providers with a translations endpoint.
+	 */
+	translateToEnglish?: (
+		audioBlob: Blob,
+		options: {
+			temperature: string;
+			timestamps: boolean;
+			signal?: AbortSignal;
 		},
-	) => Promise<TranscriptionServiceResult<string>>;
+	) => Promise<TranscriptionServiceResult<Transcript>>;
 };
 
 export const TranscriptionServiceErr = (
-	args: Pick<WhisperingErrProperties, 'title' | 'description' | 'action'>,
+	args: Pick<
+		WhisperingErrProperties,
+		'title' | 'description' | 'action' | 'isRetryable'
+	>,
 ): TranscriptionServiceErr =>
 	Err({
 		...args,
@@ -38,6 +74,7 @@ export function HttpServiceErrIntoTranscriptionServiceErr({
 			const { error: origErr, code } = error;
 			return TranscriptionServiceErr({
 				title: '🌐 Network Connection Failed',
+				isRetryable: true,
 				description:
 					origErr instanceof Error
 						? `Unable to reach the transcription service: ${origErr.message} (${code}). Please check your internet connection and try again.`
@@ -94,6 +131,7 @@ export function HttpServiceErrIntoTranscriptionServiceErr({
 			if (status === 429) {
 				return TranscriptionServiceErr({
 					title: '⏳ Rate Limit Exceeded',
+					isRetryable: true,
 					description:
 						"You've made too many requests. Please wait a moment before trying again or upgrade your plan for higher limits.",
 					action: { type: 'more-details', error: error.error },
@@ -103,6 +141,7 @@ export function HttpServiceErrIntoTranscriptionServiceErr({
 			if (status >= 500) {
 				return TranscriptionServiceErr({
 					title: '🔧 Server Error',
+					isRetryable: true,
 					description: `The transcription service is experiencing technical difficulties (Error ${status}).`,
 					action: { type: 'more-details', error: error.error },
 				});
@@ -115,6 +154,21 @@ export function HttpServiceErrIntoTranscriptionServiceErr({
 			});
 		}
 
+		case 'Aborted':
+			return TranscriptionServiceErr({
+				title: '🚫 Transcription canceled',
+				description: 'The transcription was canceled before it finished.',
+			});
+
+		case 'Timeout':
+			return TranscriptionServiceErr({
+				title: '⏱️ Transcription timed out',
+				isRetryable: true,
+				description:
+					'The transcription service took too long to respond. It might be overloaded, or the upload is too slow.',
+				action: { type: 'more-details', error: error.error },
+			});
+
 		case 'ParseError':
 			return TranscriptionServiceErr({
 				title: '🔍 Invalid Response',
@@ -1,21 +1,125 @@
-import { getExtensionFromAudioBlob } from '$lib/utils';
+import { notificationLog } from '$lib/components/NotificationLog.svelte';
+import { getAudioUploadFile } from '$lib/utils';
+import {
+	attachWordsToSegments,
+	groupWordsIntoSegments,
+} from '$lib/utils/transcript';
 import { Ok } from '@epicenterhq/result';
 import { z } from 'zod';
 import type { HttpService } from '../http/HttpService';
 import {
 	HttpServiceErrIntoTranscriptionServiceErr,
+	type LanguageType,
+	type Transcript,
 	type TranscriptionService,
 	TranscriptionServiceErr,
+	type TranscriptionServiceResult,
 } from './TranscriptionService';
+import {
+	TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+	type TranscriptionAdapter,
+	createTranscriptionServiceFromAdapter,
+} from './TranscriptionAdapter';
 import { TRANSCRIPTION_PROMPT_DEFAULT } from '@repo/shared';
 import { settings } from '$lib/stores/settings.svelte';
+import { filterHallucinations } from './hallucinationFilter';
+
+const whisperWordSchema = z.object({
+	word: z.string(),
+	start: z.number(),
+	end: z.number(),
+});
 
 const whisperApiResponseSchema = z.union([
-	z.object({ text: z.string() }),
+	z.object({
+		text: z.string(),
+		// Only in `verbose_json` responses
+		segments: z
+			.array(
+				z.object({
+					start: z.number(),
+					end: z.number(),
+					text: z.string(),
+					words: z.array(whisperWordSchema).optional(),
+				}),
+			)
+			.optional(),
+		words: z.array(whisperWordSchema).optional(),
+	}),
 	z.object({ error: z.object({ message: z.string() }) }),
 ]);
 
 const MAX_FILE_SIZE_MB = 25 as const;
+/** Whisper only reads the last 224 tokens of the prompt. */
+const PREVIOUS_SEGMENT_PROMPT_MAX_CHARS = 800;
+/** How much hotter a retry after a repetition loop is sent. */
+const RETRY_TEMPERATURE_INCREASE = 0.4;
+
+const logRemovedHallucinations = (removed: string[]) => {
+	if (removed.length === 0) return;
+	console.info('[Hallucination filter] Removed', removed);
+	notificationLog.addLog({
+		variant: 'info',
+		title: '🧹 Removed hallucinated text',
+		description: removed.join(', '),
+	});
+};
+
+/**
+ * Runs results through the hallucination filter when it's turned on. A
+ * result that was mostly a repetition loop can be sent once more at a
+ * higher temperature, which usually gets Whisper out of the loop.
+ */
+function withHallucinationFilter<
+	TOptions extends { temperature: string; signal?: AbortSignal },
+>(
+	sendBlob: (
+		audioBlob: Blob,
+		options: TOptions,
+		previousSegmentText: string | undefined,
+	) => Promise<TranscriptionServiceResult<Transcript>>,
+	getLanguage: (options: TOptions) => LanguageType,
+): typeof sendBlob {
+	return async (audioBlob, options, previousSegmentText) => {
+		const result = await sendBlob(audioBlob, options, previousSegmentText);
+		if (
+			!result.ok ||
+			!settings.value['transcription.hallucinationFilter.enabled']
+		) {
+			return result;
+		}
+
+		const language = getLanguage(options);
+		const filtered = filterHallucinations(result.data, { language });
+		if (
+			filtered.isDegenerate &&
+			settings.value[
+				'transcription.hallucinationFilter.retryAtHigherTemperature'
+			]
+		) {
+			const retryTemperature = Math.min(
+				1,
+				(Number(options.temperature) || 0) + RETRY_TEMPERATURE_INCREASE,
+			);
+			const retryResult = await sendBlob(
+				audioBlob,
+				{ ...options, temperature: String(retryTemperature) },
+				previousSegmentText,
+			);
+			if (retryResult.ok) {
+				const filteredRetry = filterHallucinations(retryResult.data, {
+					language,
+				});
+				logRemovedHallucinations(filteredRetry.removed);
+				return Ok(filteredRetry.transcript);
+			}
+			if (options.signal?.aborted) return retryResult;
+			// The filtered first result is still better than nothing
+		}
+		logRemovedHallucinations(filtered.removed);
+		return Ok(filtered.transcript);
+	};
+}
 
 export function createWhisperService({
 	HttpService,
@@ -26,74 +130,140 @@ export function createWhisperService({
 }: {
 	HttpService: HttpService;
 	modelName: string;
-	postConfig: { url: string; headers?: Record<string, string> };
+	postConfig: {
+		url: string;
+		/** The provider's `/audio/translations` endpoint, if it has one. */
+		translationUrl?: string;
+		headers?: Record<string, string>;
+	};
 	preValidate: () => Promise<Ok<undefined> | TranscriptionServiceErr>;
 	errorConfig: { title: string; description: string };
 }): TranscriptionService {
-	return {
-		transcribe: async (audioBlob, options) => {
-			const validationResult = await preValidate();
-			if (!validationResult.ok) {
-				return validationResult;
-			}
+	const postAudio = async (
+		url: string,
+		formData: FormData,
+		signal: AbortSignal | undefined,
+	): Promise<TranscriptionServiceResult<Transcript>> => {
+		const postResult = await HttpService.post({
+			url,
+			body: formData,
+			headers: postConfig.headers,
+			schema: whisperApiResponseSchema,
+			signal,
+			timeoutMs: TRANSCRIPTION_REQUEST_TIMEOUT_MS,
+		});
 
-			const blobSizeInMb = audioBlob.size / (1024 * 1024);
-			if (blobSizeInMb > MAX_FILE_SIZE_MB) {
-				return TranscriptionServiceErr({
-					title: `The file size (${blobSizeInMb}MB) is too large`,
-					description: `Please upload a file smaller than ${MAX_FILE_SIZE_MB}MB.`,
-				});
-			}
+		if (!postResult.ok) {
+			return HttpServiceErrIntoTranscriptionServiceErr(postResult);
+		}
 
-			const formData = new FormData();
-			formData.append(
-				'file',
-				new File(
-					[audioBlob],
-					`recording.${getExtensionFromAudioBlob(audioBlob)}`,
-					{ type: audioBlob.type },
-				),
-			);
-			formData.append('model', modelName);
-			if (options.outputLanguage !== 'auto') {
-				formData.append('language', options.outputLanguage);
-			}
+		const whisperApiResponse = postResult.data;
+		if ('error' in whisperApiResponse) {
+			return TranscriptionServiceErr({
+				title: errorConfig.title,
+				description: errorConfig.description,
+				action: {
+					type: 'more-details',
+					error: whisperApiResponse.error.message,
+				},
+			});
+		}
 
-			const vocabulary = settings.value['transcription.vocabulary'];
-			const resolvedPrompt = (
-				options.prompt.trim().length > 0
-					? options.prompt.trim()
-					: TRANSCRIPTION_PROMPT_DEFAULT
-			).replace('{{vocabulary}}', vocabulary);
-
-			if (options.prompt) formData.append('prompt', resolvedPrompt);
-			if (options.temperature)
-				formData.append('temperature', options.temperature);
-
-			const postResult = await HttpService.post({
-				url: postConfig.url,
-				body: formData,
-				headers: postConfig.headers,
-				schema: whisperApiResponseSchema,
+		const { text, segments, words } = whisperApiResponse;
+		if (segments) {
+			// OpenAI lists words separately from segments, others nest them
+			const hasNestedWords = segments.some((segment) => segment.words);
+			return Ok({
+				text: text.trim(),
+				segments:
+					words && !hasNestedWords
+						? attachWordsToSegments(segments, words)
+						: segments,
 			});
+		}
+		return Ok({
+			text: text.trim(),
+			segments: words ? groupWordsIntoSegments(words) : null,
+		});
+	};
 
-			if (!postResult.ok) {
-				return HttpServiceErrIntoTranscriptionServiceErr(postResult);
-			}
+	const sendTranscription: TranscriptionAdapter['transcribeBlob'] = async (
+		audioBlob,
+		options,
+		previousSegmentText,
+	) => {
+		const formData = new FormData();
+		formData.append('file', getAudioUploadFile(audioBlob));
+		formData.append('model', modelName);
+		if (options.outputLanguage !== 'auto') {
+			formData.append('language', options.outputLanguage);
+		}
 
-			const whisperApiResponse = postResult.data;
-			if ('error' in whisperApiResponse) {
-				return TranscriptionServiceErr({
-					title: errorConfig.title,
-					description: errorConfig.description,
-					action: {
-						type: 'more-details',
-						error: whisperApiResponse.error.message,
-					},
-				});
-			}
+		const vocabulary = settings.value['transcription.vocabulary'];
+		const resolvedPrompt = (
+			options.prompt.trim().length > 0
+				? options.prompt.trim()
+				: TRANSCRIPTION_PROMPT_DEFAULT
+		).replace('{{vocabulary}}', vocabulary);
+
+		const promptParts: string[] = [];
+		if (options.prompt) promptParts.push(resolvedPrompt);
+		// Goes last so it survives Whisper truncating the start of the prompt.
+		if (previousSegmentText) {
+			promptParts.push(
+				previousSegmentText.slice(-PREVIOUS_SEGMENT_PROMPT_MAX_CHARS),
+			);
+		}
+		if (promptParts.length > 0) {
+			formData.append('prompt', promptParts.join(' '));
+		}
+		if (options.temperature)
+			formData.append('temperature', options.temperature);
+		if (options.timestamps) {
+			formData.append('response_format', 'verbose_json');
+			formData.append('timestamp_granularities[]', 'segment');
+			formData.append('timestamp_granularities[]', 'word');
+		}
 
-			return Ok(whisperApiResponse.text.trim());
-		},
+		return postAudio(postConfig.url, formData, options.signal);
 	};
+	const transcribeBlob = withHallucinationFilter(
+		sendTranscription,
+		(options) => options.outputLanguage,
+	);
+
+	const { translationUrl } = postConfig;
+	const sendTranslation: TranscriptionAdapter['translateBlob'] = translationUrl
+		? async (audioBlob, options, previousSegmentText) => {
+				const formData = new FormData();
+				formData.append('file', getAudioUploadFile(audioBlob));
+				formData.append('model', modelName);
+				// The transcription prompt asks Whisper to keep the spoken
+				// language, so only the English text before is sent as context.
+				if (previousSegmentText) {
+					formData.append(
+						'prompt',
+						previousSegmentText.slice(-PREVIOUS_SEGMENT_PROMPT_MAX_CHARS),
+					);
+				}
+				if (options.temperature) {
+					formData.append('temperature', options.temperature);
+				}
+				// Translations only come with segment timestamps
+				if (options.timestamps) {
+					formData.append('response_format', 'verbose_json');
+				}
+				return postAudio(translationUrl, formData, options.signal);
+			}
+		: undefined;
+	const translateBlob =
+		sendTranslation &&
+		withHallucinationFilter(sendTranslation, (): LanguageType => 'en');
+
+	return createTranscriptionServiceFromAdapter({
+		preValidate,
+		maxFileSizeMb: MAX_FILE_SIZE_MB,
+		transcribeBlob,
+		translateBlob,
+	});
 }
@@ -0,0 +1,245 @@
+import type {
+	LanguageType,
+	Transcript,
+	TranscriptSegment,
+} from './TranscriptionService';
+
+/**
+ * Whole sentences Whisper makes up on silence or noise, mostly credits and
+ * sign-offs from the subtitled videos it was trained on.
+ */
+const HALLUCINATION_PHRASES: Partial<Record<LanguageType, string[]>> = {
+	en: [
+		'Thank you for watching.',
+		'Thanks for watching!',
+		'Please subscribe to my channel.',
+		"Don't forget to like and subscribe.",
+		'Subtitles by the Amara.org community',
+		'Transcription by CastingWords',
+	],
+	de: [
+		'Untertitel im Auftrag des ZDF, 2017',
+		'Untertitel im Auftrag des ZDF, 2020',
+		'Untertitel der Amara.org-Community',
+		'Vielen Dank fürs Zuschauen.',
+	],
+	fr: [
+		"Sous-titres réalisés par la communauté d'Amara.org",
+		"Merci d'avoir regardé cette vidéo.",
+		'Sous-titrage ST’ 501',
+	],
+	es: [
+		'Subtítulos realizados por la comunidad de Amara.org',
+		'¡Gracias por ver!',
+		'Gracias por ver el video.',
+	],
+	it: ['Sottotitoli creati dalla comunità Amara.org', 'Grazie per la visione!'],
+	pt: ['Legendas pela comunidade Amara.org', 'Obrigado por assistir.'],
+	nl: [
+		'Ondertiteling door de Amara.org gemeenschap',
+		'Bedankt voor het kijken.',
+	],
+	ru: [
+		'Продолжение следует...',
+		'Субтитры сделал DimaTorzok',
+		'Субтитры создавал DimaTorzok',
+		'Спасибо за просмотр!',
+	],
+	ja: ['ご視聴ありがとうございました', 'チャンネル登録をお願いします'],
+	zh: [
+		'字幕由Amara.org社区提供',
+		'请不吝点赞 订阅 转发 打赏支持明镜与点点栏目',
+		'谢谢观看',
+	],
+	ko: ['시청해주셔서 감사합니다.', '구독과 좋아요 부탁드립니다.'],
+};
+
+/** A phrase repeated this many times in a row is collapsed to one. */
+const MIN_REPEATS_TO_COLLAPSE = 4;
+/** Longest phrase checked for repeats, in words or unspaced characters. */
+const MAX_REPEATED_PHRASE_LENGTH = 12;
+/** Results that were mostly repeats are worth transcribing again. */
+const DEGENERATE_REPEATED_SHARE = 0.5;
+
+const normalize = (text: string) =>
+	text
+		.toLowerCase()
+		.replace(/[\p{P}\p{S}\s]+/gu, ' ')
+		.trim();
+
+const getHallucinationPhrases = (language: LanguageType) =>
+	new Set(
+		(language === 'auto'
+			? Object.values(HALLUCINATION_PHRASES).flat()
+			: (HALLUCINATION_PHRASES[language] ?? [])
+		).map(normalize),
+	);
+
+/** Splits text into sentences, each keeping its punctuation and spacing. */
+const splitSentences = (text: string) =>
+	text.match(/[^.!?。！？]+[.!?。！？]*\s*|[.!?。！？]+\s*/gu) ?? [];
+
+const UNSPACED_SCRIPT_PATTERN =
+	/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Text in languages written without spaces, like Chinese or Japanese, is
+ * checked for repeats character by character instead of word by word.
+ * Single repeated characters are left alone there, since they're often
+ * real, like laughter.
+ */
+const tokenize = (text: string) =>
+	UNSPACED_SCRIPT_PATTERN.test(text)
+		? { tokens: Array.from(text), separator: '', minPhraseLength: 2 }
+		: {
+				tokens: text.split(/\s+/).filter(Boolean),
+				separator: ' ',
+				minPhraseLength: 1,
+			};
+
+type FilterLog = {
+	/** What was taken out, for the log. */
+	removed: string[];
+	repeatedTokenCount: number;
+	totalTokenCount: number;
+};
+
+function removeHallucinationPhrases(
+	text: string,
+	phrases: Set<string>,
+	log: FilterLog,
+) {
+	const sentences = splitSentences(text);
+	const keptSentences = sentences.filter((sentence) => {
+		if (!phrases.has(normalize(sentence))) return true;
+		log.removed.push(sentence.trim());
+		return false;
+	});
+	if (keptSentences.length === sentences.length) return text;
+	return keptSentences.join('').trim();
+}
+
+function collapseRepeats(text: string, log: FilterLog) {
+	const { tokens, separator, minPhraseLength } = tokenize(text);
+	const keys = tokens.map(normalize);
+	const getPhraseKey = (start: number, length: number) =>
+		keys.slice(start, start + length).join(' ');
+	log.totalTokenCount += tokens.length;
+
+	const keptTokens: string[] = [];
+	let index = 0;
+	let hasCollapsed = false;
+	while (index < tokens.length) {
+		let phraseLength = 0;
+		let repeats = 0;
+		for (
+			let length = minPhraseLength;
+			length <= MAX_REPEATED_PHRASE_LENGTH &&
+			index + length * MIN_REPEATS_TO_COLLAPSE <= tokens.length;
+			length++
+		) {
+			const phraseKey = getPhraseKey(index, length);
+			// Runs of spaces, punctuation or digits aren't worth collapsing
+			if (!/[^\d ]/.test(phraseKey)) continue;
+			let count = 1;
+			while (
+				index + (count + 1) * length <= tokens.length &&
+				getPhraseKey(index + count * length, length) === phraseKey
+			) {
+				count++;
+			}
+			if (count >= MIN_REPEATS_TO_COLLAPSE) {
+				phraseLength = length;
+				repeats = count;
+				break;
+			}
+		}
+		if (repeats === 0) {
+			keptTokens.push(tokens[index]);
+			index++;
+			continue;
+		}
+		const phrase = tokens.slice(index, index + phraseLength);
+		keptTokens.push(...phrase);
+		log.removed.push(`"${phrase.join(separator)}" repeated ${repeats} times`);
+		log.repeatedTokenCount += (repeats - 1) * phraseLength;
+		index += repeats * phraseLength;
+		hasCollapsed = true;
+	}
+	return hasCollapsed ? keptTokens.join(separator) : text;
+}
+
+const filterText = (text: string, phrases: Set<string>, log: FilterLog) =>
+	collapseRepeats(removeHallucinationPhrases(text, phrases, log), log).trim();
+
+/**
+ * Filters segments the same way as the text, and drops segments that repeat
+ * the one before, which is how repetition loops usually show up in them.
+ */
+function filterSegments(segments: TranscriptSegment[], phrases: Set<string>) {
+	// Removals are already logged from the text
+	const segmentLog: FilterLog = {
+		removed: [],
+		repeatedTokenCount: 0,
+		totalTokenCount: 0,
+	};
+	const keptSegments: TranscriptSegment[] = [];
+	let index = 0;
+	while (index < segments.length) {
+		const segmentKey = normalize(segments[index].text);
+		let runEnd = index + 1;
+		while (
+			runEnd < segments.length &&
+			normalize(segments[runEnd].text) === segmentKey
+		) {
+			runEnd++;
+		}
+		const runLength = runEnd - index;
+		const keptRun =
+			runLength >= MIN_REPEATS_TO_COLLAPSE
+				? [segments[index]]
+				: segments.slice(index, runEnd);
+		for (const segment of keptRun) {
+			const text = filterText(segment.text, phrases, segmentLog);
+			if (!text) continue;
+			keptSegments.push(
+				text === segment.text.trim()
+					? segment
+					: { ...segment, text, words: undefined },
+			);
+		}
+		index = runEnd;
+	}
+	return keptSegments;
+}
+
+/**
+ * Removes Whisper's known hallucinations from a transcript: stock phrases
+ * for the language, and phrases repeated over and over. `removed` lists
+ * what was taken out. `isDegenerate` is set when most of the text was
+ * repeats, which usually means the model got stuck in a loop.
+ */
+export function filterHallucinations(
+	transcript: Transcript,
+	{ language }: { language: LanguageType },
+) {
+	const phrases = getHallucinationPhrases(language);
+	const log: FilterLog = {
+		removed: [],
+		repeatedTokenCount: 0,
+		totalTokenCount: 0,
+	};
+	const text = filterText(transcript.text, phrases, log);
+	return {
+		transcript: {
+			text,
+			segments: transcript.segments
+				? filterSegments(transcript.segments, phrases)
+				: null,
+		} satisfies Transcript,
+		removed: log.removed,
+		isDegenerate:
+			log.totalTokenCount > 0 &&
+			log.repeatedTokenCount / log.totalTokenCount >= DEGENERATE_REPEATED_SHARE,
+	};
+}
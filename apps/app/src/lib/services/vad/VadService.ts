@@ -0,0 +1,29 @@
+import type { AudioProcessingSettings } from '$lib/services/recorder/RecorderService';
+import type {
+	MaybePromise,
+	WhisperingResult,
+	WhisperingVadState,
+} from '@repo/shared';
+
+export type VadSessionSettings = {
+	/** Device ids in order of preference, as in `RecordingSessionSettings`. */
+	preferredDeviceIds: string[];
+	audioProcessing: AudioProcessingSettings;
+};
+
+export type VadService = {
+	getVadState: () => MaybePromise<WhisperingResult<WhisperingVadState>>;
+	/**
+	 * Opens the microphone and listens for speech until
+	 * `stopActiveListening` is called. Every detected speech segment is
+	 * handed to `onSpeechEnd` as its own WAV blob.
+	 */
+	startActiveListening: (
+		settings: VadSessionSettings,
+		callbacks: {
+			onSpeechStart: () => void;
+			onSpeechEnd: (segment: { blob: Blob; durationMs: number }) => void;
+		},
+	) => Promise<WhisperingResult<void>>;
+	stopActiveListening: () => Promise<WhisperingResult<void>>;
+};
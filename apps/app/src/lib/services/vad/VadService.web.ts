@@ -0,0 +1,112 @@
+import { Ok, tryAsync, trySync } from '@epicenterhq/result';
+import { WhisperingErr, type WhisperingVadState } from '@repo/shared';
+import { MicVAD, utils } from '@ricky0123/vad-web';
+import type { VadService } from './VadService';
+
+/** Sample rate of the audio that `MicVAD` hands to `onSpeechEnd`. */
+const VAD_SAMPLE_RATE = 16_000;
+
+/**
+ * The worklet, the Silero model and the onnxruntime wasm files are copied
+ * into the build root by `vite.config.ts`, so the VAD works offline.
+ */
+const VAD_ASSET_BASE_PATH = '/';
+
+export function createVadServiceWeb(): VadService {
+	let maybeVad: MicVAD | null = null;
+	let vadState: WhisperingVadState = 'IDLE';
+
+	return {
+		getVadState: () => Ok(vadState),
+
+		startActiveListening: async (
+			{ preferredDeviceIds, audioProcessing },
+			{ onSpeechStart, onSpeechEnd },
+		) => {
+			if (maybeVad) return Ok(undefined);
+			const deviceId = await getFirstConnectedDeviceId(preferredDeviceIds);
+			const newVadResult = await tryAsync({
+				try: () =>
+					MicVAD.new({
+						model: 'v5',
+						baseAssetPath: VAD_ASSET_BASE_PATH,
+						onnxWASMBasePath: VAD_ASSET_BASE_PATH,
+						submitUserSpeechOnPause: true,
+						additionalAudioConstraints: {
+							...audioProcessing,
+							...(deviceId && { deviceId: { ideal: deviceId } }),
+						},
+						onSpeechStart: () => {
+							vadState = 'SPEECH_DETECTED';
+							onSpeechStart();
+						},
+						onVADMisfire: () => {
+							vadState = 'LISTENING';
+						},
+						onSpeechEnd: (audio) => {
+							vadState = 'LISTENING';
+							const wavBuffer = utils.encodeWAV(audio);
+							const blob = new Blob([wavBuffer], { type: 'audio/wav' });
+							const durationMs = (audio.length / VAD_SAMPLE_RATE) * 1000;
+							onSpeechEnd({ blob, durationMs });
+						},
+					}),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '🎙️ Voice Activation Failed',
+						description:
+							'We could not start listening for speech. Check your microphone permissions and try again.',
+						action: { type: 'more-details', error },
+					}),
+			});
+			if (!newVadResult.ok) return newVadResult;
+			maybeVad = newVadResult.data;
+			maybeVad.start();
+			vadState = 'LISTENING';
+			return Ok(undefined);
+		},
+
+		stopActiveListening: async () => {
+			if (!maybeVad) return Ok(undefined);
+			const vad = maybeVad;
+			const destroyResult = trySync({
+				// `destroy` pauses the VAD first, which flushes any in-progress
+				// speech through `onSpeechEnd` because of `submitUserSpeechOnPause`.
+				try: () => vad.destroy(),
+				mapErr: (error) =>
+					WhisperingErr({
+						title: '⚠️ Unable to Stop Listening',
+						description:
+							'There was an error closing the voice activated session. You might need to restart the application.',
+						action: { type: 'more-details', error },
+					}),
+			});
+			maybeVad = null;
+			vadState = 'IDLE';
+			return destroyResult;
+		},
+	};
+}
+
+async function getFirstConnectedDeviceId(preferredDeviceIds: string[]) {
+	if (preferredDeviceIds.length === 0) return null;
+	const devicesResult = await tryAsync({
+		try: () => navigator.mediaDevices.enumerateDevices(),
+		mapErr: (error) =>
+			WhisperingErr({
+				title: '🎤 Device Access Error',
+				description: 'Unable to list your microphones',
+				action: { type: 'more-details', error },
+			}),
+	});
+	if (!devicesResult.ok) return preferredDeviceIds[0];
+	const connectedDeviceIds = new Set(
+		devicesResult.data
+			.filter((device) => device.kind === 'audioinput')
+			.map((device) => device.deviceId),
+	);
+	return (
+		preferredDeviceIds.find((deviceId) => connectedDeviceIds.has(deviceId)) ??
+		null
+	);
+}
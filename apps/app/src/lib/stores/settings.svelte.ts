@@ -50,9 +50,29 @@ function createRegisterShortcuts({ recorder }: { recorder: Recorder }) {
 		await registerGlobalShortcut({
 			shortcut: settings.value['shortcuts.currentGlobalShortcut'],
 			callback: (action) => {
-				recorder.toggleRecording(action === 'Pressed');
+				recorder.handleShortcut(action);
 			},
 		});
+		const translateShortcut =
+			settings.value['shortcuts.translateGlobalShortcut'];
+		if (translateShortcut) {
+			await registerGlobalShortcut({
+				shortcut: translateShortcut,
+				callback: (action) => {
+					recorder.handleShortcut(action, 'auto', 'translate');
+				},
+			});
+		}
+		const cancelProcessingShortcut =
+			settings.value['shortcuts.cancelProcessingGlobalShortcut'];
+		if (cancelProcessingShortcut) {
+			await registerGlobalShortcut({
+				shortcut: cancelProcessingShortcut,
+				callback: (action) => {
+					if (action === 'Pressed') recorder.cancelProcessing();
+				},
+			});
+		}
 	};
 
 	jobQueue.addJobToQueue(initialSilentJob());
@@ -75,6 +95,12 @@ function createRegisterShortcuts({ recorder }: { recorder: Recorder }) {
 			};
 			jobQueue.addJobToQueue(job());
 		},
+		unregisterGlobalShortcut: (shortcut: string) => {
+			const job = async () => {
+				await unregisterGlobalShortcut(shortcut);
+			};
+			jobQueue.addJobToQueue(job());
+		},
 	};
 }
 
@@ -67,7 +67,7 @@ export function getExtensionFromAudioBlob(blob: Blob) {
 	const mimeIncludes = (...types: string[]) =>
 		types.some((type) => mimeType.includes(type));
 	if (mimeIncludes('webm')) return 'webm';
-	if (mimeIncludes('mp4', 'mpeg', 'mp4a')) return 'mp4';
+	if (mimeIncludes('mp4', 'm4a')) return 'mp4';
 	if (mimeIncludes('ogg', 'opus')) return 'ogg';
 	if (mimeIncludes('wav', 'wave')) return 'wav';
 	if (mimeIncludes('aac')) return 'aac';
@@ -75,6 +75,19 @@ export function getExtensionFromAudioBlob(blob: Blob) {
 	return 'mp3';
 }
 
+/**
+ * Wraps audio in a file whose name and content type agree, since some
+ * providers check one against the other. Codec parameters are dropped from
+ * the content type because not every provider accepts them.
+ */
+export function getAudioUploadFile(blob: Blob, name = 'recording') {
+	const [mimeType] = blob.type.split(';');
+	const extension = getExtensionFromAudioBlob(blob);
+	return new File([blob], `${name}.${extension}`, {
+		type: mimeType.trim() || 'audio/mpeg',
+	});
+}
+
 export function getErrorMessage(error: unknown) {
 	if (error instanceof Error) return error.message;
 	if (typeof error === 'string') return error;
@@ -0,0 +1,223 @@
+/** Whisper resamples everything to mono 16kHz internally. */
+export const WHISPER_SAMPLE_RATE = 16_000;
+
+const SILENCE_SEARCH_FRAME_MS = 50;
+const SPEECH_FRAME_MS = 20;
+/** Kept around detected speech so trimming doesn't clip soft word edges. */
+const SPEECH_PADDING_MS = 250;
+/** How far back from a segment's maximum length to look for a pause. */
+const SILENCE_SEARCH_WINDOW_S = 30;
+
+/**
+ * Decodes any audio blob the webview can play into mono PCM samples at
+ * `sampleRate`. Multi-channel audio is downmixed while resampling.
+ */
+export async function decodeAudioBlob(
+	blob: Blob,
+	sampleRate = WHISPER_SAMPLE_RATE,
+) {
+	const arrayBuffer = await blob.arrayBuffer();
+	const audioContext = new AudioContext();
+	const decodedBuffer = await audioContext
+		.decodeAudioData(arrayBuffer)
+		.finally(() => audioContext.close());
+
+	const offlineContext = new OfflineAudioContext(
+		1,
+		Math.max(1, Math.ceil(decodedBuffer.duration * sampleRate)),
+		sampleRate,
+	);
+	const source = offlineContext.createBufferSource();
+	source.buffer = decodedBuffer;
+	source.connect(offlineContext.destination);
+	source.start();
+	const renderedBuffer = await offlineContext.startRendering();
+	return renderedBuffer.getChannelData(0);
+}
+
+/** Resamples mono samples, e.g. from an `AudioContext`'s native rate. */
+export async function resampleAudio(
+	samples: Float32Array,
+	{
+		fromSampleRate,
+		toSampleRate = WHISPER_SAMPLE_RATE,
+	}: {
+		fromSampleRate: number;
+		toSampleRate?: number;
+	},
+) {
+	if (samples.length === 0 || fromSampleRate === toSampleRate) return samples;
+	const offlineContext = new OfflineAudioContext(
+		1,
+		Math.max(1, Math.ceil((samples.length * toSampleRate) / fromSampleRate)),
+		toSampleRate,
+	);
+	const buffer = offlineContext.createBuffer(1, samples.length, fromSampleRate);
+	buffer.copyToChannel(samples, 0);
+	const source = offlineContext.createBufferSource();
+	source.buffer = buffer;
+	source.connect(offlineContext.destination);
+	source.start();
+	const renderedBuffer = await offlineContext.startRendering();
+	return renderedBuffer.getChannelData(0);
+}
+
+/**
+ * Reads an audio blob's duration from its metadata without decoding it.
+ * Resolves to 0 if the webview can't tell, since the duration is only shown
+ * in history.
+ */
+export function getAudioDurationMs(blob: Blob) {
+	return new Promise<number>((resolve) => {
+		const url = URL.createObjectURL(blob);
+		const audio = new Audio();
+		const settle = (durationMs: number) => {
+			URL.revokeObjectURL(url);
+			resolve(durationMs);
+		};
+		audio.preload = 'metadata';
+		audio.addEventListener('loadedmetadata', () =>
+			settle(Number.isFinite(audio.duration) ? audio.duration * 1000 : 0),
+		);
+		audio.addEventListener('error', () => settle(0));
+		audio.src = url;
+	});
+}
+
+/** Encodes mono samples as a 16-bit PCM WAV blob. */
+export function encodeWav(
+	samples: Float32Array,
+	sampleRate = WHISPER_SAMPLE_RATE,
+) {
+	const bytesPerSample = 2;
+	const dataSize = samples.length * bytesPerSample;
+	const buffer = new ArrayBuffer(44 + dataSize);
+	const view = new DataView(buffer);
+
+	writeString(view, 0, 'RIFF');
+	view.setUint32(4, 36 + dataSize, true);
+	writeString(view, 8, 'WAVE');
+	writeString(view, 12, 'fmt ');
+	view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+	view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
+	view.setUint16(22, 1, true); // NumChannels
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * bytesPerSample, true); // ByteRate
+	view.setUint16(32, bytesPerSample, true); // BlockAlign
+	view.setUint16(34, bytesPerSample * 8, true); // BitsPerSample
+	writeString(view, 36, 'data');
+	view.setUint32(40, dataSize, true);
+
+	let offset = 44;
+	for (const sample of samples) {
+		const clamped = Math.max(-1, Math.min(1, sample));
+		view.setInt16(
+			offset,
+			clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff,
+			true,
+		);
+		offset += bytesPerSample;
+	}
+
+	return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/** Root mean square of `samples[start..end)`. */
+export function getRms(samples: Float32Array, start = 0, end = samples.length) {
+	if (end <= start) return 0;
+	let sumOfSquares = 0;
+	for (let i = start; i < end; i++) {
+		sumOfSquares += samples[i] * samples[i];
+	}
+	return Math.sqrt(sumOfSquares / (end - start));
+}
+
+/**
+ * Finds the span from the first to the last frame louder than
+ * `thresholdDb` (dBFS), plus how long those loud frames last in total.
+ */
+export function findSpeech(
+	samples: Float32Array,
+	{
+		sampleRate = WHISPER_SAMPLE_RATE,
+		thresholdDb,
+	}: { sampleRate?: number; thresholdDb: number },
+) {
+	const frameSamples = Math.floor((SPEECH_FRAME_MS / 1000) * sampleRate);
+	const thresholdRms = 10 ** (thresholdDb / 20);
+	let firstSpeechSample: number | null = null;
+	let lastSpeechSample = 0;
+	let speechFrames = 0;
+	for (
+		let frameStart = 0;
+		frameStart < samples.length;
+		frameStart += frameSamples
+	) {
+		const frameEnd = Math.min(frameStart + frameSamples, samples.length);
+		if (getRms(samples, frameStart, frameEnd) < thresholdRms) continue;
+		firstSpeechSample ??= frameStart;
+		lastSpeechSample = frameEnd;
+		speechFrames++;
+	}
+
+	if (firstSpeechSample === null) {
+		return { start: 0, end: 0, speechDurationMs: 0 };
+	}
+	const paddingSamples = Math.floor((SPEECH_PADDING_MS / 1000) * sampleRate);
+	return {
+		start: Math.max(0, firstSpeechSample - paddingSamples),
+		end: Math.min(samples.length, lastSpeechSample + paddingSamples),
+		speechDurationMs: speechFrames * SPEECH_FRAME_MS,
+	};
+}
+
+/**
+ * Splits samples into segments no longer than `maxSegmentDurationS`,
+ * cutting each one at the quietest point near its end so words aren't
+ * split in half.
+ */
+export function splitOnSilence(
+	samples: Float32Array,
+	{
+		sampleRate = WHISPER_SAMPLE_RATE,
+		maxSegmentDurationS,
+	}: { sampleRate?: number; maxSegmentDurationS: number },
+) {
+	const maxSegmentSamples = Math.floor(maxSegmentDurationS * sampleRate);
+	const frameSamples = Math.floor(
+		(SILENCE_SEARCH_FRAME_MS / 1000) * sampleRate,
+	);
+	const searchWindowSamples = Math.min(
+		SILENCE_SEARCH_WINDOW_S * sampleRate,
+		Math.floor(maxSegmentSamples / 2),
+	);
+
+	const segments: Float32Array[] = [];
+	let segmentStart = 0;
+	while (samples.length - segmentStart > maxSegmentSamples) {
+		const searchEnd = segmentStart + maxSegmentSamples;
+		let splitAt = searchEnd;
+		let quietestRms = Number.POSITIVE_INFINITY;
+		for (
+			let frameStart = searchEnd - searchWindowSamples;
+			frameStart + frameSamples <= searchEnd;
+			frameStart += frameSamples
+		) {
+			const rms = getRms(samples, frameStart, frameStart + frameSamples);
+			if (rms < quietestRms) {
+				quietestRms = rms;
+				splitAt = frameStart + Math.floor(frameSamples / 2);
+			}
+		}
+		segments.push(samples.subarray(segmentStart, splitAt));
+		segmentStart = splitAt;
+	}
+	segments.push(samples.subarray(segmentStart));
+	return segments;
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+	for (let i = 0; i < string.length; i++) {
+		view.setUint8(offset + i, string.charCodeAt(i));
+	}
+}
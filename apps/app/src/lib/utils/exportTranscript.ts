@@ -0,0 +1,64 @@
+import type { TranscriptSegment } from '$lib/services/transcription/TranscriptionService';
+import { Ok, tryAsync } from '@epicenterhq/result';
+import { WhisperingErr } from '@repo/shared';
+import { downloadDir, join } from '@tauri-apps/api/path';
+import { save } from '@tauri-apps/plugin-dialog';
+import { writeTextFile } from '@tauri-apps/plugin-fs';
+import { toSrt, toTimestampedMarkdown, toWebVtt } from './transcript';
+
+export const TRANSCRIPT_EXPORT_FORMATS = {
+	srt: { label: 'SRT subtitles', extension: 'srt', serialize: toSrt },
+	vtt: { label: 'WebVTT subtitles', extension: 'vtt', serialize: toWebVtt },
+	md: {
+		label: 'Timestamped Markdown',
+		extension: 'md',
+		serialize: toTimestampedMarkdown,
+	},
+} as const satisfies Record<
+	string,
+	{
+		label: string;
+		extension: string;
+		serialize: (segments: TranscriptSegment[]) => string;
+	}
+>;
+
+export type TranscriptExportFormat = keyof typeof TRANSCRIPT_EXPORT_FORMATS;
+
+/**
+ * Asks where to save the transcript and writes it there. Resolves to `false`
+ * if the save dialog was cancelled. Transcripts can only be written to the
+ * Downloads, Documents and Desktop folders, so the dialog opens in Downloads.
+ */
+export async function saveTranscript({
+	segments,
+	format,
+	fileName,
+}: {
+	segments: TranscriptSegment[];
+	format: TranscriptExportFormat;
+	/** Suggested file name, without an extension. */
+	fileName: string;
+}) {
+	const { label, extension, serialize } = TRANSCRIPT_EXPORT_FORMATS[format];
+	const defaultFileName = `${fileName}.${extension}`;
+	const path = await save({
+		defaultPath: await downloadDir()
+			.then((dir) => join(dir, defaultFileName))
+			.catch(() => defaultFileName),
+		filters: [{ name: label, extensions: [extension] }],
+	});
+	if (!path) return Ok(false);
+	return tryAsync({
+		try: async () => {
+			await writeTextFile(path, serialize(segments));
+			return true;
+		},
+		mapErr: (error) =>
+			WhisperingErr({
+				title: '📂 Unable to save transcript',
+				description: `We couldn't write the ${label} file. Save it in your Downloads, Documents or Desktop folder and try again.`,
+				action: { type: 'more-details', error },
+			}),
+	});
+}
@@ -0,0 +1,58 @@
+import { tryAsync } from '@epicenterhq/result';
+import { WhisperingErr } from '@repo/shared';
+import { readFile } from '@tauri-apps/plugin-fs';
+
+/** Audio files that can be imported, keyed by extension. */
+const IMPORTABLE_AUDIO_MIME_TYPES = {
+	wav: 'audio/wav',
+	mp3: 'audio/mpeg',
+	m4a: 'audio/mp4',
+	webm: 'audio/webm',
+	ogg: 'audio/ogg',
+	flac: 'audio/flac',
+} as const;
+
+export const IMPORTABLE_AUDIO_EXTENSIONS = Object.keys(
+	IMPORTABLE_AUDIO_MIME_TYPES,
+) as (keyof typeof IMPORTABLE_AUDIO_MIME_TYPES)[];
+
+const getFileName = (path: string) => path.split(/[\\/]/).at(-1) ?? path;
+
+const getImportableMimeType = (path: string) => {
+	const extension = path.split('.').at(-1)?.toLowerCase() ?? '';
+	return extension in IMPORTABLE_AUDIO_MIME_TYPES
+		? IMPORTABLE_AUDIO_MIME_TYPES[
+				extension as keyof typeof IMPORTABLE_AUDIO_MIME_TYPES
+			]
+		: null;
+};
+
+export const isImportableAudioPath = (path: string) =>
+	getImportableMimeType(path) !== null;
+
+/**
+ * Reads an audio file from disk. The MIME type comes from the extension so
+ * providers that sniff the upload's file name get the right format.
+ */
+export async function readAudioFile(path: string) {
+	const fileName = getFileName(path);
+	const mimeType = getImportableMimeType(path);
+	if (!mimeType) {
+		return WhisperingErr({
+			title: '📂 Unsupported file type',
+			description: `${fileName} isn't a supported audio file. Try a ${IMPORTABLE_AUDIO_EXTENSIONS.join(', ')} file.`,
+		});
+	}
+	return tryAsync({
+		try: async () => {
+			const bytes = await readFile(path);
+			return new File([bytes], fileName, { type: mimeType });
+		},
+		mapErr: (error) =>
+			WhisperingErr({
+				title: '📂 Unable to read audio file',
+				description: `We couldn't open ${fileName}. Make sure it still exists and try again.`,
+				action: { type: 'more-details', error },
+			}),
+	});
+}
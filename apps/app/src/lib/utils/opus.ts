@@ -0,0 +1,212 @@
+import { WHISPER_SAMPLE_RATE } from './audio';
+
+/** Speech stays intelligible well below this, and it keeps uploads tiny. */
+const OPUS_BITRATE = 24_000;
+/** Ogg Opus granule positions are always counted at 48kHz. */
+const OPUS_GRANULE_RATE = 48_000;
+/** libopus encoder lookahead at 48kHz, which decoders skip at the start. */
+const OPUS_PRE_SKIP = 312;
+/** Default Opus frame duration, used when the encoder omits it. */
+const OPUS_DEFAULT_FRAME_DURATION_US = 20_000;
+const OGG_MAX_SEGMENTS_PER_PAGE = 255;
+const OGG_STREAM_SERIAL = 0x5748_5350;
+
+const getOpusEncoderConfig = (sampleRate: number) =>
+	({
+		codec: 'opus',
+		sampleRate,
+		numberOfChannels: 1,
+		bitrate: OPUS_BITRATE,
+	}) satisfies AudioEncoderConfig;
+
+/** Whether this webview can encode Opus with WebCodecs. */
+export async function isOpusEncodingSupported(
+	sampleRate = WHISPER_SAMPLE_RATE,
+) {
+	if (typeof AudioEncoder === 'undefined') return false;
+	const { supported } = await AudioEncoder.isConfigSupported(
+		getOpusEncoderConfig(sampleRate),
+	);
+	return supported === true;
+}
+
+/** Encodes mono samples as an Ogg Opus blob using WebCodecs. */
+export async function encodeOpus(
+	samples: Float32Array,
+	sampleRate = WHISPER_SAMPLE_RATE,
+) {
+	const packets: { data: Uint8Array; durationUs: number }[] = [];
+	let encoderError: unknown = null;
+	const encoder = new AudioEncoder({
+		output: (chunk) => {
+			const data = new Uint8Array(chunk.byteLength);
+			chunk.copyTo(data);
+			packets.push({
+				data,
+				durationUs: chunk.duration ?? OPUS_DEFAULT_FRAME_DURATION_US,
+			});
+		},
+		error: (error) => {
+			encoderError = error;
+		},
+	});
+	encoder.configure(getOpusEncoderConfig(sampleRate));
+
+	// Feed one second at a time to keep each AudioData small
+	for (let offset = 0; offset < samples.length; offset += sampleRate) {
+		const frame = samples.subarray(offset, offset + sampleRate);
+		const audioData = new AudioData({
+			format: 'f32',
+			sampleRate,
+			numberOfFrames: frame.length,
+			numberOfChannels: 1,
+			timestamp: Math.round((offset / sampleRate) * 1_000_000),
+			data: frame,
+		});
+		encoder.encode(audioData);
+		audioData.close();
+	}
+	await encoder.flush();
+	encoder.close();
+	if (encoderError) throw encoderError;
+
+	const totalGranules =
+		OPUS_PRE_SKIP +
+		Math.round((samples.length * OPUS_GRANULE_RATE) / sampleRate);
+	return new Blob(muxOggOpus(packets, { sampleRate, totalGranules }), {
+		type: 'audio/ogg; codecs=opus',
+	});
+}
+
+/** Wraps raw Opus packets in an Ogg container (RFC 7845). */
+function muxOggOpus(
+	packets: { data: Uint8Array; durationUs: number }[],
+	{ sampleRate, totalGranules }: { sampleRate: number; totalGranules: number },
+) {
+	const pages: Uint8Array[] = [];
+	let pageSequence = 0;
+	const writePage = (
+		pagePackets: Uint8Array[],
+		granulePosition: number,
+		headerType: number,
+	) => {
+		pages.push(
+			createOggPage(pagePackets, {
+				granulePosition,
+				headerType,
+				pageSequence: pageSequence++,
+			}),
+		);
+	};
+
+	writePage([createOpusHead(sampleRate)], 0, 0x02);
+	writePage([createOpusTags()], 0, 0x00);
+
+	let granulePosition = 0;
+	let pagePackets: Uint8Array[] = [];
+	let pageSegments = 0;
+	for (const [index, packet] of packets.entries()) {
+		const packetSegments = Math.floor(packet.data.length / 255) + 1;
+		if (pageSegments + packetSegments > OGG_MAX_SEGMENTS_PER_PAGE) {
+			writePage(pagePackets, granulePosition, 0x00);
+			pagePackets = [];
+			pageSegments = 0;
+		}
+		pagePackets.push(packet.data);
+		pageSegments += packetSegments;
+		granulePosition += Math.round(
+			(packet.durationUs * OPUS_GRANULE_RATE) / 1_000_000,
+		);
+		if (index === packets.length - 1) {
+			// The last granule position trims the encoder's padding off the end
+			writePage(pagePackets, Math.min(granulePosition, totalGranules), 0x04);
+		}
+	}
+	if (packets.length === 0) writePage([], 0, 0x04);
+	return pages;
+}
+
+function createOpusHead(sampleRate: number) {
+	const head = new Uint8Array(19);
+	const view = new DataView(head.buffer);
+	head.set(new TextEncoder().encode('OpusHead'), 0);
+	view.setUint8(8, 1); // Version
+	view.setUint8(9, 1); // Channel count
+	view.setUint16(10, OPUS_PRE_SKIP, true);
+	view.setUint32(12, sampleRate, true); // Original input sample rate
+	view.setInt16(16, 0, true); // Output gain
+	view.setUint8(18, 0); // Channel mapping family
+	return head;
+}
+
+function createOpusTags() {
+	const vendor = new TextEncoder().encode('WhisperingX');
+	const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+	const view = new DataView(tags.buffer);
+	tags.set(new TextEncoder().encode('OpusTags'), 0);
+	view.setUint32(8, vendor.length, true);
+	tags.set(vendor, 12);
+	view.setUint32(12 + vendor.length, 0, true); // User comment count
+	return tags;
+}
+
+function createOggPage(
+	packets: Uint8Array[],
+	{
+		granulePosition,
+		headerType,
+		pageSequence,
+	}: { granulePosition: number; headerType: number; pageSequence: number },
+) {
+	const lacingValues: number[] = [];
+	for (const packet of packets) {
+		let remaining = packet.length;
+		while (remaining >= 255) {
+			lacingValues.push(255);
+			remaining -= 255;
+		}
+		lacingValues.push(remaining);
+	}
+	const dataLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+	const page = new Uint8Array(27 + lacingValues.length + dataLength);
+	const view = new DataView(page.buffer);
+
+	page.set(new TextEncoder().encode('OggS'), 0);
+	view.setUint8(4, 0); // Version
+	view.setUint8(5, headerType);
+	view.setBigUint64(6, BigInt(granulePosition), true);
+	view.setUint32(14, OGG_STREAM_SERIAL, true);
+	view.setUint32(18, pageSequence, true);
+	view.setUint32(22, 0, true); // Checksum, filled in below
+	view.setUint8(26, lacingValues.length);
+	page.set(lacingValues, 27);
+	let offset = 27 + lacingValues.length;
+	for (const packet of packets) {
+		page.set(packet, offset);
+		offset += packet.length;
+	}
+
+	view.setUint32(22, getOggCrc(page), true);
+	return page;
+}
+
+let oggCrcTable: Uint32Array | null = null;
+
+/** CRC-32 with polynomial 0x04c11db7, unreflected, as Ogg requires. */
+function getOggCrc(bytes: Uint8Array) {
+	if (!oggCrcTable) {
+		oggCrcTable = new Uint32Array(256);
+		for (let i = 0; i < 256; i++) {
+			let crc = i << 24;
+			for (let bit = 0; bit < 8; bit++) {
+				crc = crc & 0x8000_0000 ? (crc << 1) ^ 0x04c1_1db7 : crc << 1;
+			}
+			oggCrcTable[i] = crc >>> 0;
+		}
+	}
+	let crc = 0;
+	for (const byte of bytes) {
+		crc = ((crc << 8) ^ oggCrcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+	}
+	return crc;
+}
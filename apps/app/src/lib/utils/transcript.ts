@@ -0,0 +1,123 @@
+import type {
+	TranscriptSegment,
+	TranscriptWord,
+} from '$lib/services/transcription/TranscriptionService';
+
+/** Captions longer than this are hard to read, so word lists are split. */
+const MAX_GROUPED_SEGMENT_S = 7;
+/** A pause this long between words starts a new segment. */
+const SEGMENT_PAUSE_S = 1;
+
+/** Moves segments later by `offsetS`, for audio that was split or trimmed. */
+export function shiftSegments(
+	segments: TranscriptSegment[],
+	offsetS: number,
+): TranscriptSegment[] {
+	if (offsetS === 0) return segments;
+	return segments.map((segment) => ({
+		...segment,
+		start: segment.start + offsetS,
+		end: segment.end + offsetS,
+		words: segment.words?.map((word) => ({
+			...word,
+			start: word.start + offsetS,
+			end: word.end + offsetS,
+		})),
+	}));
+}
+
+/**
+ * Builds caption-sized segments from word timestamps, for providers that
+ * only return words. Segments end at sentence ends, pauses, or when they
+ * get too long to read.
+ */
+export function groupWordsIntoSegments(
+	words: TranscriptWord[],
+): TranscriptSegment[] {
+	const segments: TranscriptSegment[] = [];
+	let currentWords: TranscriptWord[] = [];
+	const flush = () => {
+		if (currentWords.length === 0) return;
+		segments.push({
+			start: currentWords[0].start,
+			end: currentWords[currentWords.length - 1].end,
+			text: currentWords.map(({ word }) => word).join(' '),
+			words: currentWords,
+		});
+		currentWords = [];
+	};
+	for (const word of words) {
+		const previousWord = currentWords.at(-1);
+		if (
+			previousWord &&
+			(word.start - previousWord.end >= SEGMENT_PAUSE_S ||
+				word.end - currentWords[0].start > MAX_GROUPED_SEGMENT_S)
+		) {
+			flush();
+		}
+		currentWords.push(word);
+		if (/[.!?]$/.test(word.word)) flush();
+	}
+	flush();
+	return segments;
+}
+
+/**
+ * Puts each word into the segment it starts in, for providers that return
+ * words and segments as separate lists.
+ */
+export function attachWordsToSegments(
+	segments: TranscriptSegment[],
+	words: TranscriptWord[],
+): TranscriptSegment[] {
+	return segments.map((segment, index) => {
+		const isLast = index === segments.length - 1;
+		return {
+			...segment,
+			words: words.filter(
+				(word) =>
+					word.start >= segment.start && (isLast || word.start < segment.end),
+			),
+		};
+	});
+}
+
+const formatTimestamp = (seconds: number, millisecondSeparator: string) => {
+	const totalMs = Math.max(0, Math.round(seconds * 1000));
+	const pad = (value: number, length = 2) =>
+		String(value).padStart(length, '0');
+	const hours = Math.floor(totalMs / 3_600_000);
+	const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+	const secs = Math.floor((totalMs % 60_000) / 1000);
+	return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${pad(totalMs % 1000, 3)}`;
+};
+
+export function toSrt(segments: TranscriptSegment[]) {
+	return segments
+		.map(
+			(segment, index) =>
+				`${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${segment.text.trim()}\n`,
+		)
+		.join('\n');
+}
+
+export function toWebVtt(segments: TranscriptSegment[]) {
+	const cues = segments.map(
+		(segment) =>
+			`${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${segment.text.trim()}\n`,
+	);
+	return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/** One line per segment, like `**[01:23]** text`. */
+export function toTimestampedMarkdown(segments: TranscriptSegment[]) {
+	return segments
+		.map((segment) => {
+			const totalS = Math.floor(segment.start);
+			const minutes = String(Math.floor(totalS / 60)).padStart(2, '0');
+			const seconds = String(totalS % 60).padStart(2, '0');
+			return `**[${minutes}:${seconds}]** ${segment.text.trim()}`;
+		})
+		.join('\n\n')
+		.concat('\n');
+}
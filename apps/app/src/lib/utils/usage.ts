@@ -0,0 +1,125 @@
+import type { UsageRecord } from '$lib/services/db/DbService';
+import type {
+	INFERENCE_PROVIDERS,
+	Settings,
+	TRANSCRIPTION_SERVICES,
+} from '@repo/shared';
+import { format } from 'date-fns';
+
+type UsagePrices = Pick<
+	Settings,
+	'usage.transcriptionPrices' | 'usage.inferencePrices'
+>;
+
+export type UsagePeriod = 'day' | 'month';
+
+export type UsageSummary = {
+	/** The day (`yyyy-MM-dd`), month (`yyyy-MM`) or `provider · model`. */
+	key: string;
+	audioSeconds: number;
+	promptTokens: number;
+	completionTokens: number;
+	costUsd: number;
+	/** Some of the usage is from models without a price, so isn't in `costUsd`. */
+	hasUnpricedUsage: boolean;
+};
+
+export const findTranscriptionPrice = (
+	prices: UsagePrices,
+	{
+		service,
+		model,
+	}: { service: (typeof TRANSCRIPTION_SERVICES)[number]; model: string },
+) =>
+	prices['usage.transcriptionPrices'].find(
+		(price) => price.service === service && price.model === model,
+	) ?? null;
+
+export const findInferencePrice = (
+	prices: UsagePrices,
+	{
+		provider,
+		model,
+	}: { provider: (typeof INFERENCE_PROVIDERS)[number]; model: string },
+) =>
+	prices['usage.inferencePrices'].find(
+		(price) => price.provider === provider && price.model === model,
+	) ?? null;
+
+/** What a request cost at the current prices, or `null` without a price. */
+export function getUsageCostUsd(
+	usageRecord: UsageRecord,
+	prices: UsagePrices,
+): number | null {
+	if (usageRecord.kind === 'transcription') {
+		const price = findTranscriptionPrice(prices, usageRecord);
+		if (!price) return null;
+		return (usageRecord.audioSeconds / 3600) * price.usdPerHour;
+	}
+	const price = findInferencePrice(prices, usageRecord);
+	if (!price) return null;
+	return (
+		(usageRecord.promptTokens * price.usdPerMillionPromptTokens +
+			usageRecord.completionTokens * price.usdPerMillionCompletionTokens) /
+		1_000_000
+	);
+}
+
+/** Midnight on the first of this month, local time, as an ISO timestamp. */
+export const getStartOfMonth = (date = new Date()) =>
+	new Date(date.getFullYear(), date.getMonth(), 1).toISOString();
+
+/** Adds up usage and cost per key, in the order keys first appear. */
+function summarizeUsage(
+	usageRecords: UsageRecord[],
+	prices: UsagePrices,
+	getKey: (usageRecord: UsageRecord) => string,
+): UsageSummary[] {
+	const summaries = new Map<string, UsageSummary>();
+	for (const usageRecord of usageRecords) {
+		const key = getKey(usageRecord);
+		const summary = summaries.get(key) ?? {
+			key,
+			audioSeconds: 0,
+			promptTokens: 0,
+			completionTokens: 0,
+			costUsd: 0,
+			hasUnpricedUsage: false,
+		};
+		if (usageRecord.kind === 'transcription') {
+			summary.audioSeconds += usageRecord.audioSeconds;
+		} else {
+			summary.promptTokens += usageRecord.promptTokens;
+			summary.completionTokens += usageRecord.completionTokens;
+		}
+		const costUsd = getUsageCostUsd(usageRecord, prices);
+		if (costUsd === null) {
+			summary.hasUnpricedUsage = true;
+		} else {
+			summary.costUsd += costUsd;
+		}
+		summaries.set(key, summary);
+	}
+	return [...summaries.values()];
+}
+
+/** Usage per local day or month, newest first. */
+export const summarizeUsageByPeriod = (
+	usageRecords: UsageRecord[],
+	prices: UsagePrices,
+	period: UsagePeriod,
+) =>
+	summarizeUsage(usageRecords, prices, ({ createdAt }) =>
+		format(new Date(createdAt), period === 'day' ? 'yyyy-MM-dd' : 'yyyy-MM'),
+	).sort((a, b) => b.key.localeCompare(a.key));
+
+/** Usage per provider and model, most expensive first. */
+export const summarizeUsageByModel = (
+	usageRecords: UsageRecord[],
+	prices: UsagePrices,
+) =>
+	summarizeUsage(usageRecords, prices, (usageRecord) =>
+		usageRecord.kind === 'transcription'
+			? `${usageRecord.service} · ${usageRecord.model}`
+			: `${usageRecord.provider} · ${usageRecord.model}`,
+	).sort((a, b) => b.costUsd - a.costUsd);
@@ -14,6 +14,28 @@ export default defineConfig({
                 {
                     src: 'src/keys.html',
                     dest: ''
+                },
+                // The Tauri event API for `recording.html`, which isn't bundled
+                {
+                    src: '../../node_modules/@tauri-apps/api/{core,event}.js',
+                    dest: 'tauri-api'
+                },
+                {
+                    src: '../../node_modules/@tauri-apps/api/external/tslib/tslib.es6.js',
+                    dest: 'tauri-api/external/tslib'
+                },
+                // Voice activity detection assets, served locally instead of from a CDN
+                {
+                    src: '../../node_modules/@ricky0123/vad-web/dist/vad.worklet.bundle.min.js',
+                    dest: ''
+                },
+                {
+                    src: '../../node_modules/@ricky0123/vad-web/dist/*.onnx',
+                    dest: ''
+                },
+                {
+                    src: '../../node_modules/onnxruntime-web/dist/*.wasm',
+                    dest: ''
                 }
             ]
         })
@@ -42,10 +42,79 @@ export const recordingStateSchema = z.enum([
 	'IDLE',
 	'SESSION',
 	'SESSION+RECORDING',
+	'SESSION+PAUSED',
 ]);
 
 export type WhisperingRecordingState = z.infer<typeof recordingStateSchema>;
 
+export const vadStateSchema = z.enum(['IDLE', 'LISTENING', 'SPEECH_DETECTED']);
+
+export type WhisperingVadState = z.infer<typeof vadStateSchema>;
+
+export const RECORDING_MODES = ['manual', 'vad'] as const;
+
+export const RECORDING_MODE_OPTIONS = [
+	{ value: 'manual', label: 'Push to talk' },
+	{ value: 'vad', label: 'Voice activated' },
+] satisfies {
+	value: (typeof RECORDING_MODES)[number];
+	label: string;
+}[];
+
+export const RECORDING_BACKENDS = ['web', 'native'] as const;
+
+export const RECORDING_BACKEND_OPTIONS = [
+	{ value: 'web', label: 'Web (MediaRecorder)' },
+	{ value: 'native', label: 'Native (cpal)' },
+] satisfies {
+	value: (typeof RECORDING_BACKENDS)[number];
+	label: string;
+}[];
+
+export const UPLOAD_FORMATS = ['original', 'wav', 'opus'] as const;
+
+export const UPLOAD_FORMAT_OPTIONS = [
+	{ value: 'original', label: 'Original (as recorded)' },
+	{ value: 'wav', label: 'WAV (16 kHz mono)' },
+	{ value: 'opus', label: 'Opus (16 kHz mono, smallest)' },
+] satisfies {
+	value: (typeof UPLOAD_FORMATS)[number];
+	label: string;
+}[];
+
+/** `auto` leaves the choice to the platform's MediaRecorder. */
+export const RECORDING_MIME_TYPES = [
+	'auto',
+	'audio/webm;codecs=opus',
+	'audio/ogg;codecs=opus',
+	'audio/mp4;codecs=mp4a.40.2',
+] as const;
+
+export const RECORDING_MIME_TYPE_OPTIONS = [
+	{ value: 'auto', label: 'Platform default' },
+	{ value: 'audio/webm;codecs=opus', label: 'WebM (Opus)' },
+	{ value: 'audio/ogg;codecs=opus', label: 'Ogg (Opus)' },
+	{ value: 'audio/mp4;codecs=mp4a.40.2', label: 'MP4 (AAC)' },
+] satisfies {
+	value: (typeof RECORDING_MIME_TYPES)[number];
+	label: string;
+}[];
+
+export const SESSION_IDLE_TIMEOUTS = [
+	'immediately',
+	'afterSeconds',
+	'untilHidden',
+] as const;
+
+export const SESSION_IDLE_TIMEOUT_OPTIONS = [
+	{ value: 'immediately', label: 'Close right after each recording' },
+	{ value: 'afterSeconds', label: 'Keep open for a few seconds' },
+	{ value: 'untilHidden', label: 'Keep open until the app is hidden' },
+] satisfies {
+	value: (typeof SESSION_IDLE_TIMEOUTS)[number];
+	label: string;
+}[];
+
 /** Supported languages pulled from OpenAI Website: https://platform.openai.com/docs/guides/speech-to-text/supported-languages */
 export const SUPPORTED_LANGUAGES = [
 	'auto',
@@ -114,12 +183,37 @@ export const TRANSCRIPTION_SERVICES = [
 	'OpenAI',
 	'Groq',
 	'faster-whisper-server',
+	'Custom',
+	'Deepgram',
+	'AssemblyAI',
 ] as const;
 
+/** `translate` turns speech in any language into English text. */
+export const TRANSCRIPTION_TASKS = ['transcribe', 'translate'] as const;
+
+export const TRANSCRIPTION_TASK_OPTIONS = [
+	{ value: 'transcribe', label: 'Transcribe' },
+	{ value: 'translate', label: 'Translate to English' },
+] satisfies {
+	value: (typeof TRANSCRIPTION_TASKS)[number];
+	label: string;
+}[];
+
+/** What happens once the monthly budget is reached. */
+export const USAGE_BUDGET_ACTIONS = ['warn', 'block'] as const;
+
+export const USAGE_BUDGET_ACTION_OPTIONS = [
+	{ value: 'warn', label: 'Warn me' },
+	{ value: 'block', label: 'Stop using paid providers' },
+] satisfies {
+	value: (typeof USAGE_BUDGET_ACTIONS)[number];
+	label: string;
+}[];
+
 export const TRANSCRIPTION_SERVICE_OPTIONS = TRANSCRIPTION_SERVICES.map(
 	(service) => ({
 		value: service,
-		label: service,
+		label: service === 'Custom' ? 'Custom (OpenAI-compatible)' : service,
 	}),
 );
 
@@ -207,6 +301,30 @@ export const GROQ_MODELS_OPTIONS = GROQ_MODELS.map((model) => ({
 	label: model,
 }));
 
+// https://developers.deepgram.com/docs/models-languages-overview
+export const DEEPGRAM_MODELS = [
+	'nova-3',
+	'nova-2',
+	'enhanced',
+	'base',
+] as const;
+
+export const DEEPGRAM_MODEL_OPTIONS = DEEPGRAM_MODELS.map((model) => ({
+	value: model,
+	label: model,
+}));
+
+// https://www.assemblyai.com/docs/speech-to-text/pre-recorded-audio/select-the-speech-model
+export const ASSEMBLYAI_SPEECH_MODELS = ['best', 'nano'] as const;
+
+export const ASSEMBLYAI_SPEECH_MODEL_OPTIONS = [
+	{ value: 'best', label: 'Best (most accurate)' },
+	{ value: 'nano', label: 'Nano (cheaper, more languages)' },
+] satisfies {
+	value: (typeof ASSEMBLYAI_SPEECH_MODELS)[number];
+	label: string;
+}[];
+
 export const INFERENCE_PROVIDER_OPTIONS = INFERENCE_PROVIDERS.map(
 	(provider) => ({
 		value: provider,
@@ -291,6 +409,10 @@ export const TRANSFORMATION_STEP_TYPES = [
 export const TRANSCRIPTION_PROMPT_DEFAULT = `Transcribe the provided audio input with high accuracy, preserving the original language as spoken, without translating any part of the text into another language, even if multiple languages are present. Prioritize capturing the exact wording, including dialects and natural speech patterns. Incorporate the following custom vocabulary, favoring these words when their pronunciation and audio context match: [{{vocabulary}}]. If audio quality is poor or contains background noise, use contextual clues to interpret the most likely spoken content without altering the language.`;
 export const POST_PROCESSING_PROMPT_SYSTEM_DEFAULT = `Preserving the original language, do not translate. Remove hesitations and filler words (e.g., 'um,' 'uh,' 'you know') while maintaining the natural flow and meaning of the speech. Use the following custom vocabulary to correct or favor these words when appropriate based on context and their provided explanations: [{{vocabulary}}]. Return only the corrected transcription as a single string, with no additional text or explanation.`;
 export const POST_PROCESSING_PROMPT_USER_DEFAULT = `Here’s the transcription to refine: '{{input}}' Please process it according to the guidelines.`;
+export const TRANSLATION_PROMPT_SYSTEM =
+	'Translate the transcription you are given into natural, fluent English, keeping its meaning, tone and formatting. If it is already in English, return it unchanged. Use the following custom vocabulary to spell names and terms correctly: [{{vocabulary}}]. Return only the translation as a single string, with no additional text or explanation.';
+export const TRANSLATION_PROMPT_USER =
+	"Here’s the transcription to translate: '{{input}}'";
 
 export type Recording = {
 	blob: Blob | undefined;
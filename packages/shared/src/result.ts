@@ -4,6 +4,8 @@ import type { ToastAndNotifyOptions } from './toasts.js';
 export type WhisperingErrProperties = {
 	_tag: 'WhisperingError';
 	variant: 'error' | 'warning';
+	/** Set when the same request may succeed if it's tried again later. */
+	isRetryable?: boolean;
 } & Omit<ToastAndNotifyOptions, 'variant'>;
 
 export type WhisperingErr = Err<WhisperingErrProperties>;
@@ -2,19 +2,160 @@ import { type ZodBoolean, z } from 'zod';
 import {
 	ALWAYS_ON_TOP_VALUES,
 	ANTHROPIC_INFERENCE_MODELS,
+	ASSEMBLYAI_SPEECH_MODELS,
 	BITRATE_VALUES_KBPS,
+	DEEPGRAM_MODELS,
 	DEFAULT_BITRATE_KBPS,
 	GOOGLE_INFERENCE_MODELS,
 	GROQ_INFERENCE_MODELS,
 	GROQ_MODELS,
 	INFERENCE_PROVIDERS,
 	OPENAI_INFERENCE_MODELS,
+	RECORDING_BACKENDS,
+	RECORDING_MIME_TYPES,
+	RECORDING_MODES,
+	SESSION_IDLE_TIMEOUTS,
 	SUPPORTED_LANGUAGES,
 	TRANSCRIPTION_SERVICES,
+	TRANSCRIPTION_TASKS,
 	TRANSFORMATION_STEP_TYPES,
+	UPLOAD_FORMATS,
+	USAGE_BUDGET_ACTIONS,
 	type WhisperingSoundNames,
 } from './constants.js';
 
+/**
+ * A server that speaks OpenAI's `/audio/transcriptions` API, like
+ * whisper.cpp server, LocalAI or a gateway in front of one.
+ */
+export const customTranscriptionEndpointSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	/** Everything before `/audio/transcriptions`, usually ending in `/v1`. */
+	baseUrl: z.string(),
+	/** Sent as a bearer token when not empty. */
+	apiKey: z.string(),
+	model: z.string(),
+	/** Extra request headers, one `Name: value` per line. */
+	headers: z.string(),
+	/** Whether the server also has `/audio/translations`. */
+	supportsTranslation: z.boolean().optional().default(false),
+});
+
+export type CustomTranscriptionEndpoint = z.infer<
+	typeof customTranscriptionEndpointSchema
+>;
+
+/** What a transcription model costs per hour of audio sent, in USD. */
+export const transcriptionPriceSchema = z.object({
+	service: z.enum(TRANSCRIPTION_SERVICES),
+	model: z.string(),
+	usdPerHour: z.number().min(0),
+});
+
+/** What a post-processing model costs per million tokens, in USD. */
+export const inferencePriceSchema = z.object({
+	provider: z.enum(INFERENCE_PROVIDERS),
+	model: z.string(),
+	usdPerMillionPromptTokens: z.number().min(0),
+	usdPerMillionCompletionTokens: z.number().min(0),
+});
+
+export type TranscriptionPrice = z.infer<typeof transcriptionPriceSchema>;
+export type InferencePrice = z.infer<typeof inferencePriceSchema>;
+
+/**
+ * List prices when these were added. Providers change them, so they're
+ * editable on the usage page; models without a price count as free.
+ */
+export const DEFAULT_TRANSCRIPTION_PRICES = [
+	{ service: 'OpenAI', model: 'whisper-1', usdPerHour: 0.36 },
+	{ service: 'Groq', model: 'whisper-large-v3', usdPerHour: 0.111 },
+	{ service: 'Groq', model: 'whisper-large-v3-turbo', usdPerHour: 0.04 },
+	{ service: 'Groq', model: 'distil-whisper-large-v3-en', usdPerHour: 0.02 },
+	{ service: 'Deepgram', model: 'nova-3', usdPerHour: 0.258 },
+	{ service: 'Deepgram', model: 'nova-2', usdPerHour: 0.258 },
+	{ service: 'Deepgram', model: 'enhanced', usdPerHour: 0.87 },
+	{ service: 'Deepgram', model: 'base', usdPerHour: 0.75 },
+	{ service: 'AssemblyAI', model: 'best', usdPerHour: 0.37 },
+	{ service: 'AssemblyAI', model: 'nano', usdPerHour: 0.12 },
+] satisfies TranscriptionPrice[];
+
+export const DEFAULT_INFERENCE_PRICES = [
+	{
+		provider: 'OpenAI',
+		model: 'gpt-4o',
+		usdPerMillionPromptTokens: 2.5,
+		usdPerMillionCompletionTokens: 10,
+	},
+	{
+		provider: 'OpenAI',
+		model: 'gpt-4o-mini',
+		usdPerMillionPromptTokens: 0.15,
+		usdPerMillionCompletionTokens: 0.6,
+	},
+	{
+		provider: 'OpenAI',
+		model: 'gpt-3.5-turbo',
+		usdPerMillionPromptTokens: 0.5,
+		usdPerMillionCompletionTokens: 1.5,
+	},
+	{
+		provider: 'Groq',
+		model: 'llama-3.3-70b-versatile',
+		usdPerMillionPromptTokens: 0.59,
+		usdPerMillionCompletionTokens: 0.79,
+	},
+	{
+		provider: 'Anthropic',
+		model: 'claude-3-7-sonnet-latest',
+		usdPerMillionPromptTokens: 3,
+		usdPerMillionCompletionTokens: 15,
+	},
+	{
+		provider: 'Anthropic',
+		model: 'claude-3-5-sonnet-latest',
+		usdPerMillionPromptTokens: 3,
+		usdPerMillionCompletionTokens: 15,
+	},
+	{
+		provider: 'Anthropic',
+		model: 'claude-3-5-haiku-latest',
+		usdPerMillionPromptTokens: 0.8,
+		usdPerMillionCompletionTokens: 4,
+	},
+	{
+		provider: 'Anthropic',
+		model: 'claude-3-opus-latest',
+		usdPerMillionPromptTokens: 15,
+		usdPerMillionCompletionTokens: 75,
+	},
+	{
+		provider: 'Anthropic',
+		model: 'claude-3-sonnet-latest',
+		usdPerMillionPromptTokens: 3,
+		usdPerMillionCompletionTokens: 15,
+	},
+	{
+		provider: 'Anthropic',
+		model: 'claude-3-haiku-latest',
+		usdPerMillionPromptTokens: 0.25,
+		usdPerMillionCompletionTokens: 1.25,
+	},
+	{
+		provider: 'Google',
+		model: 'gemini-2.0-flash',
+		usdPerMillionPromptTokens: 0.1,
+		usdPerMillionCompletionTokens: 0.4,
+	},
+	{
+		provider: 'Google',
+		model: 'gemini-2.0-flash-lite-preview',
+		usdPerMillionPromptTokens: 0.075,
+		usdPerMillionCompletionTokens: 0.3,
+	},
+] satisfies InferencePrice[];
+
 export const getDefaultSettings = () =>
   ({
 	"sound.enabled": true,
@@ -23,20 +164,45 @@ export const getDefaultSettings = () =>
     "system.closeToTray": true,
     "system.openOnBoot": true,
 
-    "recording.selectedAudioInputDeviceId": "default",
+    "recording.devicePriority": [],
     "recording.bitrateKbps": DEFAULT_BITRATE_KBPS,
+    "recording.mode": "manual",
+    "recording.backend": "web",
+    "recording.mimeType": "auto",
+    "recording.uploadFormat": "opus",
+    "recording.silenceDetection.enabled": true,
+    "recording.silenceDetection.thresholdDb": -45,
+    "recording.silenceDetection.minSpeechMs": 250,
+    "recording.preRollMs": 0,
+    "recording.sessionIdleTimeout": "immediately",
+    "recording.sessionIdleTimeoutSeconds": 30,
+    "recording.audioProcessing.echoCancellation": true,
+    "recording.audioProcessing.noiseSuppression": true,
+    "recording.audioProcessing.autoGainControl": true,
 
     "transcription.selectedTranscriptionService": "OpenAI",
+    "transcription.fallbackServices": [],
     "transcription.groq.model": "whisper-large-v3",
     "transcription.outputLanguage": "auto",
+    "transcription.task": "transcribe",
     "transcription.prompt": '',
     "transcription.vocabulary": "",
     "transcription.temperature": "0",
+    "transcription.chunking.usePreviousTextAsPrompt": true,
+    "transcription.streaming.enabled": false,
+    "transcription.timestamps.enabled": false,
+    "transcription.hallucinationFilter.enabled": true,
+    "transcription.hallucinationFilter.retryAtHigherTemperature": false,
 
     "transcription.fasterWhisperServer.serverUrl": "http://localhost:8000",
     "transcription.fasterWhisperServer.serverModel":
       "Systran/faster-whisper-medium.en",
 
+    "transcription.custom.endpoints": [],
+    "transcription.custom.selectedEndpointId": null,
+    "transcription.deepgram.model": "nova-3",
+    "transcription.assemblyai.speechModel": "best",
+
     "transformations.selectedTransformationId": null,
     "postProcessing.config": {
       id: "8uAZZtxwjXIymnkjosAh5",
@@ -59,11 +225,44 @@ export const getDefaultSettings = () =>
     "apiKeys.anthropic": "",
     "apiKeys.groq": "",
     "apiKeys.google": "",
+    "apiKeys.deepgram": "",
+    "apiKeys.assemblyai": "",
+
+    "usage.transcriptionPrices": DEFAULT_TRANSCRIPTION_PRICES,
+    "usage.inferencePrices": DEFAULT_INFERENCE_PRICES,
+    "usage.monthlyBudgetUsd": null,
+    "usage.budgetAction": "warn",
 
     "shortcuts.currentGlobalShortcut": "CommandOrControl+Shift+;",
+    "shortcuts.translateGlobalShortcut": "",
+    "shortcuts.cancelProcessingGlobalShortcut": "",
   }) satisfies Settings;
 
-export const settingsSchema = z.object({
+/**
+ * Carries a microphone picked before device priorities existed over to
+ * `recording.devicePriority`. The old key survives until settings are next
+ * saved, so the priority list next to it was never set by the user.
+ */
+const migrateSelectedAudioInputDevice = (value: unknown) => {
+	if (typeof value !== 'object' || value === null) return value;
+	const {
+		'recording.selectedAudioInputDeviceId': selectedDeviceId,
+		...settings
+	} = value as Record<string, unknown>;
+	const devicePriority = settings['recording.devicePriority'];
+	const hasDevicePriority =
+		Array.isArray(devicePriority) && devicePriority.length > 0;
+	if (
+		hasDevicePriority ||
+		typeof selectedDeviceId !== 'string' ||
+		selectedDeviceId === 'default'
+	) {
+		return settings;
+	}
+	return { ...settings, 'recording.devicePriority': [selectedDeviceId] };
+};
+
+const settingsObjectSchema = z.object({
 	...({
 		'sound.enabled': z.boolean(),
 	}),
@@ -74,23 +273,128 @@ export const settingsSchema = z.object({
 	'system.closeToTray': z.boolean(),
 	'system.openOnBoot': z.boolean(),
 
-	'recording.selectedAudioInputDeviceId': z.string().nullable(),
+	/** Device ids, most preferred first. Empty means the system default. */
+	'recording.devicePriority': z.array(z.string()).optional().default([]),
 	'recording.bitrateKbps': z
 		.enum(BITRATE_VALUES_KBPS)
 		.optional()
 		.default(DEFAULT_BITRATE_KBPS),
+	'recording.mode': z.enum(RECORDING_MODES).optional().default('manual'),
+	'recording.backend': z.enum(RECORDING_BACKENDS).optional().default('web'),
+	/** Container and codec the web recorder records in. */
+	'recording.mimeType': z
+		.enum(RECORDING_MIME_TYPES)
+		.optional()
+		.default('auto'),
+	'recording.uploadFormat': z.enum(UPLOAD_FORMATS).optional().default('opus'),
+	'recording.silenceDetection.enabled': z.boolean().optional().default(true),
+	'recording.silenceDetection.thresholdDb': z
+		.number()
+		.max(0)
+		.optional()
+		.default(-45),
+	'recording.silenceDetection.minSpeechMs': z
+		.number()
+		.min(0)
+		.optional()
+		.default(250),
+	/**
+	 * Audio kept from before the shortcut is pressed. Anything above `0`
+	 * keeps the microphone open between recordings.
+	 */
+	'recording.preRollMs': z.number().min(0).max(2000).optional().default(0),
+	/** When the microphone is released after a recording finishes. */
+	'recording.sessionIdleTimeout': z
+		.enum(SESSION_IDLE_TIMEOUTS)
+		.optional()
+		.default('immediately'),
+	'recording.sessionIdleTimeoutSeconds': z
+		.number()
+		.min(1)
+		.optional()
+		.default(30),
+	/** Requested from the browser, which may not apply all of them. */
+	'recording.audioProcessing.echoCancellation': z
+		.boolean()
+		.optional()
+		.default(true),
+	'recording.audioProcessing.noiseSuppression': z
+		.boolean()
+		.optional()
+		.default(true),
+	'recording.audioProcessing.autoGainControl': z
+		.boolean()
+		.optional()
+		.default(true),
 
 	// Shared transcription settings
 	'transcription.selectedTranscriptionService': z.enum(TRANSCRIPTION_SERVICES),
+	/**
+	 * Tried in order after the selected service when it fails with a
+	 * temporary error, like a rate limit, an outage or no network.
+	 */
+	'transcription.fallbackServices': z
+		.array(z.enum(TRANSCRIPTION_SERVICES))
+		.optional()
+		.default([]),
 	'transcription.outputLanguage': z.enum(SUPPORTED_LANGUAGES),
+	/** What the main shortcut and record button do with speech. */
+	'transcription.task': z
+		.enum(TRANSCRIPTION_TASKS)
+		.optional()
+		.default('transcribe'),
 	'transcription.prompt': z.string(),
 	'transcription.vocabulary': z.string(),
 	'transcription.temperature': z.string(),
+	'transcription.chunking.usePreviousTextAsPrompt': z
+		.boolean()
+		.optional()
+		.default(true),
+	/**
+	 * Transcribes the recording in windows while it's still going, so only
+	 * the last few seconds are left when it stops. Web recorder only.
+	 */
+	'transcription.streaming.enabled': z.boolean().optional().default(false),
+	/**
+	 * Asks for segment and word timings, so transcripts can be exported as
+	 * captions. Streamed transcripts never have them.
+	 */
+	'transcription.timestamps.enabled': z.boolean().optional().default(false),
+	/**
+	 * Removes stock phrases Whisper makes up on silence, like "Thanks for
+	 * watching!", and phrases it repeats over and over.
+	 */
+	'transcription.hallucinationFilter.enabled': z
+		.boolean()
+		.optional()
+		.default(true),
+	/** Sends the audio again once when most of a Whisper result was repeats. */
+	'transcription.hallucinationFilter.retryAtHigherTemperature': z
+		.boolean()
+		.optional()
+		.default(false),
 
 	// Service-specific settings
 	'transcription.groq.model': z.enum(GROQ_MODELS),
 	'transcription.fasterWhisperServer.serverUrl': z.string(),
 	'transcription.fasterWhisperServer.serverModel': z.string(),
+	'transcription.custom.endpoints': z
+		.array(customTranscriptionEndpointSchema)
+		.optional()
+		.default([]),
+	'transcription.custom.selectedEndpointId': z
+		.string()
+		.nullable()
+		.optional()
+		.default(null),
+	'transcription.deepgram.model': z
+		.enum(DEEPGRAM_MODELS)
+		.optional()
+		.default('nova-3'),
+	'transcription.assemblyai.speechModel': z
+		.enum(ASSEMBLYAI_SPEECH_MODELS)
+		.optional()
+		.default('best'),
 
 	'transformations.selectedTransformationId': z.string().nullable(),
 	'postProcessing.config': z.object({
@@ -115,8 +419,42 @@ export const settingsSchema = z.object({
 	'apiKeys.anthropic': z.string(),
 	'apiKeys.groq': z.string(),
 	'apiKeys.google': z.string(),
+	'apiKeys.deepgram': z.string().optional().default(''),
+	'apiKeys.assemblyai': z.string().optional().default(''),
+
+	'usage.transcriptionPrices': z
+		.array(transcriptionPriceSchema)
+		.optional()
+		.default(DEFAULT_TRANSCRIPTION_PRICES),
+	'usage.inferencePrices': z
+		.array(inferencePriceSchema)
+		.optional()
+		.default(DEFAULT_INFERENCE_PRICES),
+	/** Spend per calendar month, in USD. `null` means no budget. */
+	'usage.monthlyBudgetUsd': z
+		.number()
+		.min(0)
+		.nullable()
+		.optional()
+		.default(null),
+	'usage.budgetAction': z
+		.enum(USAGE_BUDGET_ACTIONS)
+		.optional()
+		.default('warn'),
 
 	'shortcuts.currentGlobalShortcut': z.string(),
+	/** Always translates to English. Empty means no shortcut. */
+	'shortcuts.translateGlobalShortcut': z.string().optional().default(''),
+	/** Cancels transcription and post-processing in flight. Empty means none. */
+	'shortcuts.cancelProcessingGlobalShortcut': z
+		.string()
+		.optional()
+		.default(''),
 });
 
+export const settingsSchema = z.preprocess(
+	migrateSelectedAudioInputDevice,
+	settingsObjectSchema,
+);
+
 export type Settings = z.infer<typeof settingsSchema>;